@@ -13,6 +13,8 @@ const reporterConfig = getReporterConfig();
  */
 export default defineConfig({
   testDir: './src/tests',
+  /* Starts the local reqres server when NODE_ENV=local */
+  globalSetup: './src/server/global-setup.ts',
   /* Run tests in files in parallel */
   fullyParallel: testConfig.parallel,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -24,7 +26,7 @@ export default defineConfig({
   /* Reporter to use. See https://playwright.dev/docs/test-reporters */
   reporter: [
     ...reporterConfig,
-    ['./src/reporters/custom.reporter.ts', { outputDir: testConfig.outputDir }]
+    ['./src/reporters/custom.reporter.ts', { outputDir: testConfig.outputDir, openApiSpec: 'openapi/reqres.openapi.json' }]
   ],
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
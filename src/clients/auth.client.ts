@@ -1,25 +1,38 @@
 import { APIRequestContext } from '@playwright/test';
-import { BaseApiClient } from '@/core/base-api-client';
+import { ApiClientServices, BaseApiClient } from '@/core/base-api-client';
+import { AuthSession } from '@/core/token-store';
 import {
   LoginRequest,
   LoginResponse,
   RegisterRequest,
   RegisterResponse,
+  RequestOptions,
   ApiResponse,
   ApiClientConfig
 } from '@/types';
+import { loginResponseSchema, registerResponseSchema } from '@/schemas';
 
 export class AuthClient extends BaseApiClient {
-  constructor(config: ApiClientConfig, requestContext?: APIRequestContext) {
-    super(config, requestContext);
+  constructor(config: ApiClientConfig, requestContext?: APIRequestContext, services?: ApiClientServices) {
+    super(config, requestContext, services);
   }
 
-  async login(credentials: LoginRequest): Promise<ApiResponse<LoginResponse>> {
+  async login(credentials: LoginRequest, options?: RequestOptions): Promise<ApiResponse<LoginResponse>> {
     this.logger.info('Attempting user login', { email: credentials.email });
 
     this.validateLoginRequest(credentials);
 
-    const response = await this.post<LoginResponse>('/api/login', credentials);
+    const response = await this.post<LoginResponse>('/api/login', credentials, undefined, {
+      responseSchema: loginResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      this.logger.info('User login rejected', { email: credentials.email, status: response.status });
+      return response;
+    }
+
+    this.storeSession(response.data.token, credentials.email);
 
     this.logger.info('User logged in successfully', {
       email: credentials.email,
@@ -29,12 +42,22 @@ export class AuthClient extends BaseApiClient {
     return response;
   }
 
-  async register(userData: RegisterRequest): Promise<ApiResponse<RegisterResponse>> {
+  async register(userData: RegisterRequest, options?: RequestOptions): Promise<ApiResponse<RegisterResponse>> {
     this.logger.info('Attempting user registration', { email: userData.email });
 
     this.validateRegisterRequest(userData);
 
-    const response = await this.post<RegisterResponse>('/api/register', userData);
+    const response = await this.post<RegisterResponse>('/api/register', userData, undefined, {
+      responseSchema: registerResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      this.logger.info('User registration rejected', { email: userData.email, status: response.status });
+      return response;
+    }
+
+    this.storeSession(response.data.token, userData.email);
 
     this.logger.info('User registered successfully', {
       email: userData.email,
@@ -45,30 +68,34 @@ export class AuthClient extends BaseApiClient {
     return response;
   }
 
+  // Falls back to the stored session token and always clears the session afterwards
   async logout(token?: string): Promise<ApiResponse<void>> {
     this.logger.info('Attempting user logout');
 
-    const headers = token ? { 'Authorization': `Bearer ${token}` } : undefined;
+    const logoutToken = token || this.tokenStore?.getToken();
+    const headers = logoutToken ? { 'Authorization': `Bearer ${logoutToken}` } : undefined;
 
+    let response: ApiResponse<void>;
     try {
-      const response = await this.post<void>('/api/logout', {}, headers);
-      this.logger.info('User logged out successfully');
-      return response;
-    } catch (error) {
+      response = await this.post<void>('/api/logout', {}, headers, { expectedStatus: [404] });
+    } finally {
+      this.tokenStore?.clear();
+    }
 
-      // Handle demo API limitation - logout endpoint may not exist
-      if ((error as Error).message.includes('404')) {
-        this.logger.info('Logout endpoint not available (demo API)');
-        return {
-          data: undefined as any,
-          status: 200,
-          statusText: 'OK',
-          headers: {},
-          config: { method: 'POST', url: '/api/logout' }
-        };
-      }
-      throw error;
+    // Handle demo API limitation - logout endpoint may not exist
+    if (response.status === 404) {
+      this.logger.info('Logout endpoint not available (demo API)');
+      return {
+        data: undefined as any,
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config: { method: 'POST', url: '/api/logout' }
+      };
     }
+
+    this.logger.info('User logged out successfully');
+    return response;
   }
 
   // Validate token using mock implementation for demo API
@@ -136,6 +163,19 @@ export class AuthClient extends BaseApiClient {
     }
   }
 
+  getSession(): AuthSession | undefined {
+    return this.tokenStore?.getSession();
+  }
+
+  private storeSession(token: string | undefined, email: string): void {
+    if (!this.tokenStore || !token) {
+      return;
+    }
+
+    this.tokenStore.setSession(token, email);
+    this.logger.debug('Stored session token for shared clients', { email });
+  }
+
   private validateLoginRequest(credentials: LoginRequest): void {
     if (!credentials.email || credentials.email.trim().length === 0) {
       throw new Error('Email is required for login');
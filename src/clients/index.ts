@@ -1,19 +1,68 @@
 export { BaseApiClient } from '@/core/base-api-client';
+export type { ApiClientServices } from '@/core/base-api-client';
+export { InterceptorChain } from '@/core/interceptors';
+export type { ApiInterceptor, PreparedRequest, ReplayRequest, ShortCircuit } from '@/core/interceptors';
+export { TokenStore } from '@/core/token-store';
+export type { AuthSession } from '@/core/token-store';
+export { AuthProvider } from '@/core/auth-provider';
+export type { TokenRefresher } from '@/core/auth-provider';
+export { MockServer } from '@/core/mock-server';
+export type { MockedResponse, MockRequestOptions, UnmatchedRequest } from '@/core/mock-server';
+export { REQUEST_RECORDS_ATTACHMENT, RequestRecorder, endpointTemplate, requestRecorder } from '@/core/request-recorder';
+export { HAR_ATTACHMENT, HarRecorder, harRecorder } from '@/core/har-recorder';
+export {
+  CIRCUIT_BREAKERS_ATTACHMENT,
+  CircuitBreakerRegistry,
+  aggregateCircuitBreakers,
+  circuitBreakerKey,
+  circuitBreakerRegistry
+} from '@/core/circuit-breaker-registry';
+export type {
+  CircuitBreakerRegistryMetrics,
+  CircuitBreakerScope,
+  CircuitBreakerSnapshot
+} from '@/core/circuit-breaker-registry';
+export type { HttpExchange } from '@/core/har-recorder';
+export { ResponseCache, headerValue, parseCacheControl } from '@/core/response-cache';
+export type { CacheControl, CacheHeaderExpectations, CachedResponse, ResponseCacheMetrics } from '@/core/response-cache';
+export { ApiError, isApiError } from '@/core/api-error';
+export { Bulkhead, BulkheadRejectedError, isBulkheadRejectedError } from '@/utils/bulkhead';
+export type { BulkheadConfig, BulkheadMetrics, BulkheadRejectionReason } from '@/utils/bulkhead';
+export { SchemaValidationError, isSchemaValidationError } from '@/core/schema-validation-error';
 export { UserClient } from './user.client';
 export { AuthClient } from './auth.client';
+export { ResourceClient } from './resource.client';
 
 import { APIRequestContext } from '@playwright/test';
-import { ApiClientConfig } from '@/types';
+import { ApiClientConfig, LoginRequest } from '@/types';
 import { getEnvironmentConfig } from '@/config';
+import { ApiClientServices, BaseApiClient } from '@/core/base-api-client';
+import { ApiInterceptor, InterceptorChain } from '@/core/interceptors';
+import { AuthSession, TokenStore } from '@/core/token-store';
+import { AuthProvider } from '@/core/auth-provider';
+import { MockServer } from '@/core/mock-server';
+import { CircuitBreakerRegistry, circuitBreakerRegistry } from '@/core/circuit-breaker-registry';
+import { ResponseCache } from '@/core/response-cache';
+import { OpenApiContractChecker } from '@/openapi/contract-checker';
+import { loadOpenApiDocument } from '@/openapi/openapi-document';
+import { RateLimiter } from '@/utils/rate-limiter';
+import { BulkheadMetrics } from '@/utils/bulkhead';
 import { UserClient } from './user.client';
 import { AuthClient } from './auth.client';
+import { ResourceClient } from './resource.client';
 
 // Factory for creating configured API client instances
 export class ApiClientFactory {
   private config: ApiClientConfig;
   private requestContext?: APIRequestContext;
+  private services: ApiClientServices;
+  private contractChecker?: OpenApiContractChecker;
 
-  constructor(requestContext?: APIRequestContext, customConfig?: Partial<ApiClientConfig>) {
+  constructor(
+    requestContext?: APIRequestContext,
+    customConfig?: Partial<ApiClientConfig>,
+    interceptors: ApiInterceptor[] = []
+  ) {
     const envConfig = getEnvironmentConfig();
 
     this.config = {
@@ -22,10 +71,53 @@ export class ApiClientFactory {
       retries: envConfig.retries,
       retryDelay: envConfig.retryDelay,
       headers: envConfig.headers,
+      rateLimit: envConfig.rateLimit,
+      mock: envConfig.mock,
+      validateSchemas: envConfig.validateSchemas,
+      contractCheck: envConfig.contractCheck,
+      recordHar: envConfig.recordHar,
+      correlationHeader: envConfig.correlationHeader,
+      bulkhead: envConfig.bulkhead,
+      cache: envConfig.cache,
       ...customConfig
     };
 
     this.requestContext = requestContext;
+    this.services = this.createServices();
+    if (this.config.contractCheck) {
+      this.enableContractCheck();
+    }
+    interceptors.forEach(interceptor => this.useInterceptor(interceptor));
+  }
+
+  // One rate limiter, interceptor chain, token store, mock server, breaker registry and response cache per factory, shared by every client it creates
+  private createServices(): ApiClientServices {
+    const tokenStore = new TokenStore();
+    const interceptors = new InterceptorChain().use(
+      new AuthProvider(tokenStore, async token => (await this.createAuthClient().refreshToken(token)).data.token)
+    );
+
+    return {
+      rateLimiter: this.createRateLimiter(),
+      interceptors,
+      tokenStore,
+      mockServer: this.config.mock ? new MockServer() : undefined,
+      circuitBreakers: this.createCircuitBreakerRegistry(),
+      bulkheads: new Map(),
+      responseCache: this.createResponseCache()
+    };
+  }
+
+  private createRateLimiter(): RateLimiter | undefined {
+    return this.config.rateLimit ? new RateLimiter(this.config.rateLimit) : undefined;
+  }
+
+  private createResponseCache(): ResponseCache | undefined {
+    return this.config.cache ? new ResponseCache(this.config.cache.maxEntries) : undefined;
+  }
+
+  private createCircuitBreakerRegistry(): CircuitBreakerRegistry {
+    return this.config.circuitBreaker?.sharing === 'worker' ? circuitBreakerRegistry : new CircuitBreakerRegistry();
   }
 
   setRequestContext(context: APIRequestContext): void {
@@ -33,27 +125,138 @@ export class ApiClientFactory {
   }
 
   createUserClient(): UserClient {
-    return new UserClient(this.config, this.requestContext);
+    return new UserClient(this.config, this.requestContext, this.services);
   }
 
   createAuthClient(): AuthClient {
-    return new AuthClient(this.config, this.requestContext);
+    return new AuthClient(this.config, this.requestContext, this.services);
+  }
+
+  createResourceClient(): ResourceClient {
+    return new ResourceClient(this.config, this.requestContext, this.services);
   }
 
+  // Builds any BaseApiClient subclass, such as the generated OpenAPI clients, with this factory's config and services
+  createClient<T extends BaseApiClient>(
+    ClientType: new (config: ApiClientConfig, requestContext?: APIRequestContext, services?: ApiClientServices) => T
+  ): T {
+    return new ClientType(this.config, this.requestContext, this.services);
+  }
 
   // Create all clients with shared configuration
   createAllClients(): {
     userClient: UserClient;
     authClient: AuthClient;
+    resourceClient: ResourceClient;
   } {
     return {
       userClient: this.createUserClient(),
       authClient: this.createAuthClient(),
+      resourceClient: this.createResourceClient()
     };
   }
 
+  // Logs in once so every client from this factory sends the user's bearer token
+  async authenticateAs(credentials: LoginRequest): Promise<AuthSession> {
+    const response = await this.createAuthClient().login(credentials);
+    const session = this.services.tokenStore!.getSession();
+
+    if (!session) {
+      throw new Error(`Authentication failed for ${credentials.email} with status ${response.status}`);
+    }
+
+    return session;
+  }
+
+  getSession(): AuthSession | undefined {
+    return this.services.tokenStore!.getSession();
+  }
+
+  clearSession(): void {
+    this.services.tokenStore!.clear();
+  }
+
   updateConfig(newConfig: Partial<ApiClientConfig>): void {
     this.config = { ...this.config, ...newConfig };
+
+    if ('rateLimit' in newConfig) {
+      this.services = { ...this.services, rateLimiter: this.createRateLimiter() };
+    }
+
+    if ('cache' in newConfig) {
+      this.services = { ...this.services, responseCache: this.createResponseCache() };
+    }
+
+    if ('bulkhead' in newConfig) {
+      this.services = { ...this.services, bulkheads: new Map() };
+    }
+
+    if ('circuitBreaker' in newConfig) {
+      this.services = { ...this.services, circuitBreakers: this.createCircuitBreakerRegistry() };
+    }
+
+    if ('mock' in newConfig) {
+      this.services = { ...this.services, mockServer: newConfig.mock ? new MockServer() : undefined };
+    }
+
+    if ('contractCheck' in newConfig) {
+      if (newConfig.contractCheck && !this.contractChecker) {
+        this.enableContractCheck();
+      } else if (!newConfig.contractCheck && this.contractChecker) {
+        this.removeInterceptor(this.contractChecker.name);
+        this.contractChecker = undefined;
+      }
+    }
+  }
+
+  // Records conformance of every call from this factory's clients against the OpenAPI document
+  private enableContractCheck(): void {
+    this.contractChecker = new OpenApiContractChecker(loadOpenApiDocument());
+    this.useInterceptor(this.contractChecker);
+  }
+
+  useInterceptor(interceptor: ApiInterceptor): this {
+    this.services.interceptors!.use(interceptor);
+    return this;
+  }
+
+  removeInterceptor(name: string): boolean {
+    return this.services.interceptors!.remove(name);
+  }
+
+  // Register per-test routes here; undefined unless the factory runs in mock mode
+  getMockServer(): MockServer | undefined {
+    return this.services.mockServer;
+  }
+
+  // Undefined unless contractCheck is enabled
+  getContractChecker(): OpenApiContractChecker | undefined {
+    return this.contractChecker;
+  }
+
+  getRateLimiterMetrics() {
+    return this.services.rateLimiter?.getMetrics();
+  }
+
+  // Hit, revalidation and miss counts of the cache shared by this factory's clients; undefined unless cache is set
+  getCacheMetrics() {
+    return this.services.responseCache?.getMetrics();
+  }
+
+  clearCache(): void {
+    this.services.responseCache?.clear();
+  }
+
+  // Host-scoped bulkheads shared by this factory's clients, keyed by origin
+  getBulkheadMetrics(): Record<string, BulkheadMetrics> {
+    return Object.fromEntries(
+      Array.from(this.services.bulkheads!.entries()).map(([origin, bulkhead]) => [origin, bulkhead.getMetrics()])
+    );
+  }
+
+  // Breakers of every client from this factory, keyed by host or endpoint
+  getCircuitBreakerRegistry(): CircuitBreakerRegistry {
+    return this.services.circuitBreakers!;
   }
 
   getConfig(): ApiClientConfig {
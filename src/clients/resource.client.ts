@@ -0,0 +1,184 @@
+import { APIRequestContext } from '@playwright/test';
+import { ApiClientServices, BaseApiClient } from '@/core/base-api-client';
+import {
+  ApiClientConfig,
+  ApiResponse,
+  CreateResourceRequest,
+  CreateResourceResponse,
+  PaginateOptions,
+  PaginationParams,
+  RequestOptions,
+  Resource,
+  ResourceListResponse,
+  SingleResourceResponse,
+  UpdateResourceRequest,
+  UpdateResourceResponse
+} from '@/types';
+import {
+  createResourceResponseSchema,
+  resourceListResponseSchema,
+  singleResourceResponseSchema,
+  updateResourceResponseSchema
+} from '@/schemas';
+
+export class ResourceClient extends BaseApiClient {
+  constructor(config: ApiClientConfig, requestContext?: APIRequestContext, services?: ApiClientServices) {
+    super(config, requestContext, services);
+  }
+
+  async getResources(params?: PaginationParams, options?: RequestOptions): Promise<ApiResponse<ResourceListResponse>> {
+    this.logger.info('Getting resources list', { params });
+
+    const response = await this.get<ResourceListResponse>('/api/unknown', params, undefined, {
+      responseSchema: resourceListResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('Resources retrieved successfully', {
+      count: response.data.data?.length || 0,
+      page: response.data.page,
+      totalPages: response.data.total_pages
+    });
+
+    return response;
+  }
+
+  // Every resource from startPage onwards, following total_pages
+  async getAllResources(options?: PaginateOptions<Resource>): Promise<Resource[]> {
+    return this.fetchAll(params => this.getResources(params), options);
+  }
+
+  async getResource(resourceId: number, options?: RequestOptions): Promise<ApiResponse<SingleResourceResponse>> {
+    this.logger.info('Getting resource by ID', { resourceId });
+
+    const response = await this.get<SingleResourceResponse>(`/api/unknown/${resourceId}`, undefined, undefined, {
+      responseSchema: singleResourceResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('Resource retrieved successfully', {
+      resourceId,
+      name: response.data.data.name,
+      year: response.data.data.year
+    });
+
+    return response;
+  }
+
+  async createResource(resourceData: CreateResourceRequest, options?: RequestOptions): Promise<ApiResponse<CreateResourceResponse>> {
+    this.logger.info('Creating new resource', { resourceData });
+
+    this.validateCreateResourceRequest(resourceData);
+
+    const response = await this.post<CreateResourceResponse>('/api/unknown', resourceData, undefined, {
+      responseSchema: createResourceResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('Resource created successfully', {
+      resourceId: response.data.id,
+      name: response.data.name,
+      createdAt: response.data.createdAt
+    });
+
+    return response;
+  }
+
+  async updateResource(resourceId: number, resourceData: UpdateResourceRequest, options?: RequestOptions): Promise<ApiResponse<UpdateResourceResponse>> {
+    this.logger.info('Updating resource', { resourceId, resourceData });
+
+    if (!resourceId || resourceId <= 0) {
+      throw new Error('Valid resource ID is required for update operation');
+    }
+
+    const response = await this.put<UpdateResourceResponse>(`/api/unknown/${resourceId}`, resourceData, undefined, {
+      responseSchema: updateResourceResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('Resource updated successfully', {
+      resourceId,
+      updatedAt: response.data.updatedAt,
+      changes: resourceData
+    });
+
+    return response;
+  }
+
+  async patchResource(resourceId: number, resourceData: Partial<UpdateResourceRequest>, options?: RequestOptions): Promise<ApiResponse<UpdateResourceResponse>> {
+    this.logger.info('Partially updating resource', { resourceId, resourceData });
+
+    if (!resourceId || resourceId <= 0) {
+      throw new Error('Valid resource ID is required for patch operation');
+    }
+
+    const response = await this.patch<UpdateResourceResponse>(`/api/unknown/${resourceId}`, resourceData, undefined, {
+      responseSchema: updateResourceResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('Resource patched successfully', {
+      resourceId,
+      updatedAt: response.data.updatedAt,
+      changes: resourceData
+    });
+
+    return response;
+  }
+
+  async deleteResource(resourceId: number, options?: RequestOptions): Promise<ApiResponse<void>> {
+    this.logger.info('Deleting resource', { resourceId });
+
+    if (!resourceId || resourceId <= 0) {
+      throw new Error('Valid resource ID is required for delete operation');
+    }
+
+    const response = await this.delete<void>(`/api/unknown/${resourceId}`, undefined, options);
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('Resource deleted successfully', { resourceId });
+
+    return response;
+  }
+
+  private validateCreateResourceRequest(resourceData: CreateResourceRequest): void {
+    if (!resourceData.name || resourceData.name.trim().length === 0) {
+      throw new Error('Resource name is required and cannot be empty');
+    }
+
+    if (!resourceData.year || resourceData.year < 1900) {
+      throw new Error('Resource year must be 1900 or later');
+    }
+
+    if (!resourceData.color || !/^#[0-9A-F]{6}$/i.test(resourceData.color)) {
+      throw new Error('Resource color must be a valid hex color');
+    }
+
+    if (!resourceData.pantone_value || resourceData.pantone_value.trim().length === 0) {
+      throw new Error('Resource Pantone value is required and cannot be empty');
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { APIRequestContext } from '@playwright/test';
-import { BaseApiClient } from '@/core/base-api-client';
+import { ApiClientServices, BaseApiClient } from '@/core/base-api-client';
 import {
   CreateUserRequest,
   CreateUserResponse,
@@ -7,20 +7,36 @@ import {
   UpdateUserResponse,
   UserListResponse,
   SingleUserResponse,
+  PaginateOptions,
   PaginationParams,
+  RequestOptions,
   ApiResponse,
-  ApiClientConfig
+  ApiClientConfig,
+  User
 } from '@/types';
+import {
+  createUserResponseSchema,
+  singleUserResponseSchema,
+  updateUserResponseSchema,
+  userListResponseSchema
+} from '@/schemas';
 
 export class UserClient extends BaseApiClient {
-  constructor(config: ApiClientConfig, requestContext?: APIRequestContext) {
-    super(config, requestContext);
+  constructor(config: ApiClientConfig, requestContext?: APIRequestContext, services?: ApiClientServices) {
+    super(config, requestContext, services);
   }
 
-  async getUsers(params?: PaginationParams): Promise<ApiResponse<UserListResponse>> {
+  async getUsers(params?: PaginationParams, options?: RequestOptions): Promise<ApiResponse<UserListResponse>> {
     this.logger.info('Getting users list', { params });
 
-    const response = await this.get<UserListResponse>('/api/users', params);
+    const response = await this.get<UserListResponse>('/api/users', params, undefined, {
+      responseSchema: userListResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
 
     this.logger.info('Users retrieved successfully', {
       count: response.data.data?.length || 0,
@@ -31,10 +47,22 @@ export class UserClient extends BaseApiClient {
     return response;
   }
 
-  async getUser(userId: number): Promise<ApiResponse<SingleUserResponse>> {
+  // Every user from startPage onwards, following total_pages
+  async getAllUsers(options?: PaginateOptions<User>): Promise<User[]> {
+    return this.fetchAll(params => this.getUsers(params), options);
+  }
+
+  async getUser(userId: number, options?: RequestOptions): Promise<ApiResponse<SingleUserResponse>> {
     this.logger.info('Getting user by ID', { userId });
 
-    const response = await this.get<SingleUserResponse>(`/api/users/${userId}`);
+    const response = await this.get<SingleUserResponse>(`/api/users/${userId}`, undefined, undefined, {
+      responseSchema: singleUserResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
 
     this.logger.info('User retrieved successfully', {
       userId,
@@ -45,12 +73,19 @@ export class UserClient extends BaseApiClient {
     return response;
   }
 
-  async createUser(userData: CreateUserRequest): Promise<ApiResponse<CreateUserResponse>> {
+  async createUser(userData: CreateUserRequest, options?: RequestOptions): Promise<ApiResponse<CreateUserResponse>> {
     this.logger.info('Creating new user', { userData });
 
     this.validateCreateUserRequest(userData);
 
-    const response = await this.post<CreateUserResponse>('/api/users', userData);
+    const response = await this.post<CreateUserResponse>('/api/users', userData, undefined, {
+      responseSchema: createUserResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
 
     this.logger.info('User created successfully', {
       userId: response.data.id,
@@ -62,14 +97,21 @@ export class UserClient extends BaseApiClient {
     return response;
   }
 
-  async updateUser(userId: number, userData: UpdateUserRequest): Promise<ApiResponse<UpdateUserResponse>> {
+  async updateUser(userId: number, userData: UpdateUserRequest, options?: RequestOptions): Promise<ApiResponse<UpdateUserResponse>> {
     this.logger.info('Updating user', { userId, userData });
 
     if (!userId || userId <= 0) {
       throw new Error('Valid user ID is required for update operation');
     }
 
-    const response = await this.put<UpdateUserResponse>(`/api/users/${userId}`, userData);
+    const response = await this.put<UpdateUserResponse>(`/api/users/${userId}`, userData, undefined, {
+      responseSchema: updateUserResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
 
     this.logger.info('User updated successfully', {
       userId,
@@ -80,14 +122,21 @@ export class UserClient extends BaseApiClient {
     return response;
   }
 
-  async patchUser(userId: number, userData: Partial<UpdateUserRequest>): Promise<ApiResponse<UpdateUserResponse>> {
+  async patchUser(userId: number, userData: Partial<UpdateUserRequest>, options?: RequestOptions): Promise<ApiResponse<UpdateUserResponse>> {
     this.logger.info('Partially updating user', { userId, userData });
 
     if (!userId || userId <= 0) {
       throw new Error('Valid user ID is required for patch operation');
     }
 
-    const response = await this.patch<UpdateUserResponse>(`/api/users/${userId}`, userData);
+    const response = await this.patch<UpdateUserResponse>(`/api/users/${userId}`, userData, undefined, {
+      responseSchema: updateUserResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
 
     this.logger.info('User patched successfully', {
       userId,
@@ -98,14 +147,18 @@ export class UserClient extends BaseApiClient {
     return response;
   }
 
-  async deleteUser(userId: number): Promise<ApiResponse<void>> {
+  async deleteUser(userId: number, options?: RequestOptions): Promise<ApiResponse<void>> {
     this.logger.info('Deleting user', { userId });
 
     if (!userId || userId <= 0) {
       throw new Error('Valid user ID is required for delete operation');
     }
 
-    const response = await this.delete<void>(`/api/users/${userId}`);
+    const response = await this.delete<void>(`/api/users/${userId}`, undefined, options);
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
 
     this.logger.info('User deleted successfully', { userId });
 
@@ -114,15 +167,8 @@ export class UserClient extends BaseApiClient {
 
   // Check if user exists by attempting to fetch them
   async userExists(userId: number): Promise<boolean> {
-    try {
-      await this.getUser(userId);
-      return true;
-    } catch (error) {
-      if ((error as Error).message.includes('404')) {
-        return false;
-      }
-      throw error;
-    }
+    const response = await this.getUser(userId, { expectedStatus: [404] });
+    return response.status !== 404;
   }
 
   // Get users with delay for testing timeout scenarios
@@ -151,27 +197,34 @@ export class UserClient extends BaseApiClient {
     }
   }
 
-  // Search users by name - filters client-side for demo API
+  // Search users by name or email across every page - filters client-side for demo API
   async searchUsers(query: string, params?: PaginationParams): Promise<ApiResponse<UserListResponse>> {
     this.logger.info('Searching users', { query, params });
 
-    const response = await this.getUsers(params);
-
-    if (query && query.trim().length > 0) {
-      const filteredUsers = response.data.data.filter(user =>
-        user.first_name?.toLowerCase().includes(query.toLowerCase()) ||
-        user.last_name?.toLowerCase().includes(query.toLowerCase()) ||
-        user.email?.toLowerCase().includes(query.toLowerCase())
-      );
-
-      response.data.data = filteredUsers;
-      this.logger.info('Users filtered by search query', {
-        query,
-        originalCount: response.data.total,
-        filteredCount: filteredUsers.length
-      });
+    const term = query?.trim().toLowerCase() || '';
+    const matches = (user: User) =>
+      user.first_name?.toLowerCase().includes(term) ||
+      user.last_name?.toLowerCase().includes(term) ||
+      user.email?.toLowerCase().includes(term);
+
+    let response: ApiResponse<UserListResponse> | undefined;
+    const users: User[] = [];
+    for await (const page of this.paginatePages(pageParams => this.getUsers(pageParams), {
+      startPage: params?.page,
+      perPage: params?.per_page
+    })) {
+      response = response || page;
+      users.push(...page.data.data.filter(matches));
     }
 
-    return response;
+    // Keep the first page's metadata, so total still counts every user rather than the matches
+    response!.data.data = users;
+    this.logger.info('Users filtered by search query', {
+      query,
+      originalCount: response!.data.total,
+      filteredCount: users.length
+    });
+
+    return response!;
   }
 }
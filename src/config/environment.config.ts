@@ -8,7 +8,21 @@ export const getEnvVars = (): EnvironmentVariables => {
     NODE_ENV: (process.env.NODE_ENV as Environment) || 'development',
     API_BASE_URL: process.env.API_BASE_URL,
     API_KEY: process.env.API_KEY,
+    API_MOCK: process.env.API_MOCK,
+    VALIDATE_SCHEMAS: process.env.VALIDATE_SCHEMAS,
+    CONTRACT_CHECK: process.env.CONTRACT_CHECK,
+    RECORD_HAR: process.env.RECORD_HAR,
+    CORRELATION_HEADER: process.env.CORRELATION_HEADER,
+    BULKHEAD_MAX_CONCURRENT: process.env.BULKHEAD_MAX_CONCURRENT,
+    BULKHEAD_MAX_QUEUE: process.env.BULKHEAD_MAX_QUEUE,
+    BULKHEAD_QUEUE_TIMEOUT: process.env.BULKHEAD_QUEUE_TIMEOUT,
+    HTTP_CACHE: process.env.HTTP_CACHE,
+    HTTP_CACHE_TTL: process.env.HTTP_CACHE_TTL,
+    HTTP_CACHE_MAX_ENTRIES: process.env.HTTP_CACHE_MAX_ENTRIES,
     LOG_LEVEL: process.env.LOG_LEVEL as any,
+    LOG_REDACT_FIELDS: process.env.LOG_REDACT_FIELDS,
+    LOG_REDACT_HEADERS: process.env.LOG_REDACT_HEADERS,
+    LOG_REDACT_PATTERN: process.env.LOG_REDACT_PATTERN,
     TEST_TIMEOUT: process.env.TEST_TIMEOUT,
     TEST_RETRIES: process.env.TEST_RETRIES,
     TEST_WORKERS: process.env.TEST_WORKERS,
@@ -108,6 +122,25 @@ export const getEnvironmentConfig = (env?: Environment): EnvironmentConfig => {
     apiKey: apiKey,
     timeout: envVars.TEST_TIMEOUT ? parseInt(envVars.TEST_TIMEOUT) : config.timeout,
     retries: envVars.TEST_RETRIES ? parseInt(envVars.TEST_RETRIES) : config.retries,
+    mock: envVars.API_MOCK === 'true',
+    validateSchemas: envVars.VALIDATE_SCHEMAS === 'true',
+    contractCheck: envVars.CONTRACT_CHECK === 'true',
+    recordHar: envVars.RECORD_HAR === 'true',
+    correlationHeader: envVars.CORRELATION_HEADER || undefined,
+    bulkhead: envVars.BULKHEAD_MAX_CONCURRENT
+      ? {
+          maxConcurrent: parseInt(envVars.BULKHEAD_MAX_CONCURRENT),
+          maxQueue: envVars.BULKHEAD_MAX_QUEUE ? parseInt(envVars.BULKHEAD_MAX_QUEUE) : undefined,
+          queueTimeout: envVars.BULKHEAD_QUEUE_TIMEOUT ? parseInt(envVars.BULKHEAD_QUEUE_TIMEOUT) : undefined,
+          scope: 'host'
+        }
+      : config.bulkhead,
+    cache: envVars.HTTP_CACHE === 'true'
+      ? {
+          ttl: envVars.HTTP_CACHE_TTL ? parseInt(envVars.HTTP_CACHE_TTL) : undefined,
+          maxEntries: envVars.HTTP_CACHE_MAX_ENTRIES ? parseInt(envVars.HTTP_CACHE_MAX_ENTRIES) : undefined
+        }
+      : config.cache,
     headers: {
       ...config.headers,
       ...(apiKey && { 'x-api-key': apiKey })
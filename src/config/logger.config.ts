@@ -1,4 +1,5 @@
-import { LogLevel, LoggerConfig } from '@/types';
+import { LogLevel, LogRedactionConfig, LoggerConfig } from '@/types';
+import { EMAIL_PATTERN } from '@/utils/redaction';
 import { getCurrentEnvironment } from './environment.config';
 
 const loggerConfigs: Record<string, LoggerConfig> = {
@@ -43,12 +44,43 @@ const loggerConfigs: Record<string, LoggerConfig> = {
   }
 };
 
+// Emails are PII in log files; credentials, tokens and API keys are masked by the Redactor defaults
+const DEFAULT_LOG_REDACTION: Required<LogRedactionConfig> = {
+  fields: [],
+  headers: [],
+  patterns: [EMAIL_PATTERN.source]
+};
+
+const parseList = (value?: string): string[] =>
+  value ? value.split(',').map(item => item.trim()).filter(item => item.length > 0) : [];
+
+// Checked up front so an invalid LOG_REDACT_PATTERN fails with a message that names it
+const parsePattern = (value?: string): string[] => {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    new RegExp(value, 'gi');
+  } catch (error) {
+    throw new Error(`Invalid LOG_REDACT_PATTERN ${JSON.stringify(value)}: ${(error as Error).message}`);
+  }
+  return [value];
+};
+
+// LOG_REDACT_FIELDS and LOG_REDACT_HEADERS are comma-separated; LOG_REDACT_PATTERN is one regular expression
+const getLogRedactionConfig = (): LogRedactionConfig => ({
+  fields: [...DEFAULT_LOG_REDACTION.fields, ...parseList(process.env.LOG_REDACT_FIELDS)],
+  headers: [...DEFAULT_LOG_REDACTION.headers, ...parseList(process.env.LOG_REDACT_HEADERS)],
+  patterns: [...DEFAULT_LOG_REDACTION.patterns, ...parsePattern(process.env.LOG_REDACT_PATTERN)]
+});
+
 export const getLoggerConfig = (): LoggerConfig => {
   const environment = getCurrentEnvironment();
   const config = loggerConfigs[environment];
 
   if (!config) {
-    return loggerConfigs.development;
+    return { ...loggerConfigs.development, redaction: getLogRedactionConfig() };
   }
 
   const envLogLevel = process.env.LOG_LEVEL as LogLevel;
@@ -56,7 +88,7 @@ export const getLoggerConfig = (): LoggerConfig => {
     config.level = envLogLevel;
   }
 
-  return config;
+  return { ...config, redaction: getLogRedactionConfig() };
 };
 
 export const isValidLogLevel = (level: string): level is LogLevel => {
@@ -0,0 +1,64 @@
+import { ApiErrorResponse, RequestConfig, RequestTiming } from '@/types';
+
+export interface ApiErrorDetails {
+  status: number;
+  statusText: string;
+  body: any;
+  headers: Record<string, string>;
+  request: RequestConfig;
+  url: string;
+  attempts?: number;
+  timing?: RequestTiming;
+}
+
+// Structured error thrown for non-2xx responses so callers can branch on status instead of message text
+export class ApiError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  readonly body: any;
+  readonly headers: Record<string, string>;
+  readonly request: RequestConfig;
+  readonly url: string;
+  attempts: number;
+  timing?: RequestTiming;
+
+  constructor(details: ApiErrorDetails) {
+    const errorText = details.body?.error || `HTTP ${details.status}`;
+    const messageText = details.body?.message || details.statusText;
+
+    super(`API Error: ${details.request.method} ${details.url} returned ${details.status} - ${errorText}${messageText ? ` (${messageText})` : ''}`);
+
+    this.name = 'ApiError';
+    this.status = details.status;
+    this.statusText = details.statusText;
+    this.body = details.body;
+    this.headers = details.headers;
+    this.request = details.request;
+    this.url = details.url;
+    this.attempts = details.attempts || 1;
+    this.timing = details.timing;
+
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+
+  isClientError(): boolean {
+    return this.status >= 400 && this.status < 500;
+  }
+
+  isServerError(): boolean {
+    return this.status >= 500;
+  }
+
+  toErrorResponse(): ApiErrorResponse {
+    return {
+      error: this.body?.error || `HTTP ${this.status}`,
+      message: this.body?.message || this.statusText,
+      statusCode: this.status,
+      timestamp: new Date().toISOString()
+    };
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => {
+  return error instanceof ApiError;
+};
@@ -0,0 +1,101 @@
+import { ApiInterceptor, PreparedRequest, ReplayRequest } from './interceptors';
+import { ApiResponse } from '@/types';
+import { Logger } from '../utils/logger';
+import { TokenStore } from './token-store';
+import { isApiError } from './api-error';
+
+// Exchanges the current token for a new one
+export type TokenRefresher = (token: string) => Promise<string>;
+
+// Attaches the stored bearer token to outgoing requests and refreshes it once when a request is rejected with 401
+export class AuthProvider implements ApiInterceptor {
+  readonly name = 'auth';
+  private tokenStore: TokenStore;
+  private refresher: TokenRefresher;
+  private logger: Logger;
+  private pendingRefresh?: Promise<string>;
+  private replacedTokens = new Set<string>();
+
+  constructor(tokenStore: TokenStore, refresher: TokenRefresher) {
+    this.tokenStore = tokenStore;
+    this.refresher = refresher;
+    this.logger = new Logger('AuthProvider');
+  }
+
+  onRequest(request: PreparedRequest): PreparedRequest | void {
+    const token = this.tokenStore.getToken();
+
+    // Explicit Authorization headers from the caller take precedence
+    if (!token || this.getAuthorizationHeader(request)) {
+      return undefined;
+    }
+
+    return this.withToken(request, token);
+  }
+
+  async onError(error: Error, request: PreparedRequest, replay: ReplayRequest): Promise<ApiResponse | void> {
+    const token = this.tokenStore.getToken();
+
+    if (!isApiError(error) || error.status !== 401 || !token) {
+      return undefined;
+    }
+
+    // Caller-supplied credentials are left alone; only tokens this store handed out are refreshed
+    const sentToken = this.getAuthorizationHeader(request)?.replace(/^Bearer\s+/i, '');
+    if (!sentToken || (sentToken !== token && !this.replacedTokens.has(sentToken))) {
+      return undefined;
+    }
+
+    let refreshedToken: string;
+    try {
+      refreshedToken = sentToken === token ? await this.refresh(token) : token;
+    } catch (refreshError) {
+      this.logger.error('Token refresh failed, clearing session', {
+        error: (refreshError as Error).message,
+        url: request.url
+      });
+      this.tokenStore.clear();
+      return undefined;
+    }
+
+    this.logger.info('Replaying request with refreshed token', {
+      method: request.config.method,
+      url: request.url
+    });
+
+    return await replay(this.withToken(this.withoutAuthorization(request), refreshedToken));
+  }
+
+  // Concurrent 401s share one refresh call
+  private refresh(token: string): Promise<string> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.refresher(token)
+        .then(refreshedToken => {
+          this.replacedTokens.add(token);
+          this.tokenStore.updateToken(refreshedToken);
+          return refreshedToken;
+        })
+        .finally(() => {
+          this.pendingRefresh = undefined;
+        });
+    }
+
+    return this.pendingRefresh;
+  }
+
+  private getAuthorizationHeader(request: PreparedRequest): string | undefined {
+    const key = Object.keys(request.headers).find(header => header.toLowerCase() === 'authorization');
+    return key ? request.headers[key] : undefined;
+  }
+
+  private withoutAuthorization(request: PreparedRequest): PreparedRequest {
+    const headers = Object.fromEntries(
+      Object.entries(request.headers).filter(([header]) => header.toLowerCase() !== 'authorization')
+    );
+    return { ...request, headers };
+  }
+
+  private withToken(request: PreparedRequest, token: string): PreparedRequest {
+    return { ...request, headers: { ...request.headers, 'Authorization': `Bearer ${token}` } };
+  }
+}
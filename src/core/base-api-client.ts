@@ -2,103 +2,451 @@ import { APIRequestContext } from '@playwright/test';
 import {
   ApiClientConfig,
   RequestConfig,
+  RequestOptions,
   ApiResponse,
-  ApiErrorResponse
+  AttemptTiming,
+  CacheOutcome,
+  HttpMethod,
+  JsonSchema,
+  PaginateOptions,
+  PaginatedResponse,
+  PaginationParams,
+  RequestTiming,
+  SchemaValidationResult
 } from '@/types';
+import { ApiError, isApiError } from './api-error';
+import { SchemaValidationError } from './schema-validation-error';
+import { ApiInterceptor, InterceptorChain, PreparedRequest } from './interceptors';
+import { TokenStore } from './token-store';
+import { MockServer } from './mock-server';
+import { RequestRecorder, endpointTemplate, requestRecorder } from './request-recorder';
+import { HarRecorder, harRecorder } from './har-recorder';
+import { CircuitBreakerRegistry, circuitBreakerKey } from './circuit-breaker-registry';
+import { CachedResponse, ResponseCache } from './response-cache';
 import { Logger } from '../utils/logger';
+import { DEFAULT_CORRELATION_HEADER, correlationContext } from '../utils/correlation';
 import { CircuitBreaker, CircuitBreakerConfig } from '../utils/circuit-breaker';
+import { Bulkhead, isBulkheadRejectedError } from '../utils/bulkhead';
+import { RetryPolicy } from '../utils/retry-policy';
+import { RateLimiter } from '../utils/rate-limiter';
+import { SchemaValidator } from '../utils/schema-validator';
+
+// Runtime collaborators shared between clients created by the same ApiClientFactory
+export interface ApiClientServices {
+  rateLimiter?: RateLimiter;
+  interceptors?: InterceptorChain;
+  tokenStore?: TokenStore;
+  mockServer?: MockServer;
+  recorder?: RequestRecorder;
+  harRecorder?: HarRecorder;
+  circuitBreakers?: CircuitBreakerRegistry;
+  bulkheads?: Map<string, Bulkhead>; // keyed by origin, for ApiClientConfig.bulkhead scope 'host'
+  responseCache?: ResponseCache;
+}
 
 export class BaseApiClient {
   protected config: ApiClientConfig;
   protected logger: Logger;
   protected requestContext?: APIRequestContext;
-  protected circuitBreaker: CircuitBreaker;
-
-  constructor(config: ApiClientConfig, requestContext?: APIRequestContext) {
+  protected circuitBreakers: CircuitBreakerRegistry;
+  private circuitBreakerConfig: CircuitBreakerConfig;
+  protected retryPolicy: RetryPolicy;
+  protected rateLimiter?: RateLimiter;
+  protected bulkheads: Map<string, Bulkhead>;
+  protected responseCache?: ResponseCache;
+  protected interceptors: InterceptorChain;
+  protected tokenStore?: TokenStore;
+  protected mockServer?: MockServer;
+  protected schemaValidator: SchemaValidator;
+  protected recorder: RequestRecorder;
+  protected harRecorder: HarRecorder;
+
+  constructor(config: ApiClientConfig, requestContext?: APIRequestContext, services: ApiClientServices = {}) {
     this.config = config;
     this.requestContext = requestContext;
-    this.logger = new Logger('BaseApiClient');
+    this.logger = new Logger('BaseApiClient', { client: this.constructor.name });
 
-    const circuitBreakerConfig: CircuitBreakerConfig = {
+    this.circuitBreakerConfig = {
       failureThreshold: config.circuitBreaker?.failureThreshold || 5,
       recoveryTimeout: config.circuitBreaker?.recoveryTimeout || 60000,
       monitoringPeriod: config.circuitBreaker?.monitoringPeriod || 10000,
-      expectedErrors: ['ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'Network Error', 'timeout']
+      expectedErrors: ['ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'Network Error', 'timeout'],
+      mode: config.circuitBreaker?.mode,
+      failureRateThreshold: config.circuitBreaker?.failureRateThreshold,
+      slowCallDurationThreshold: config.circuitBreaker?.slowCallDurationThreshold,
+      slowCallRateThreshold: config.circuitBreaker?.slowCallRateThreshold,
+      minimumCalls: config.circuitBreaker?.minimumCalls,
+      halfOpenMaxCalls: config.circuitBreaker?.halfOpenMaxCalls
     };
 
-    this.circuitBreaker = new CircuitBreaker(circuitBreakerConfig);
+    this.circuitBreakers = services.circuitBreakers || new CircuitBreakerRegistry();
+
+    this.retryPolicy = new RetryPolicy({
+      maxRetries: config.retries || 0,
+      baseDelay: config.retryDelay || 1000,
+      ...config.retryPolicy
+    });
+
+    this.rateLimiter = services.rateLimiter || (config.rateLimit ? new RateLimiter(config.rateLimit) : undefined);
+    this.bulkheads = (config.bulkhead?.scope === 'host' && services.bulkheads) || new Map();
+    this.responseCache = services.responseCache || (config.cache ? new ResponseCache(config.cache.maxEntries) : undefined);
+    this.interceptors = services.interceptors || new InterceptorChain();
+    this.tokenStore = services.tokenStore;
+    this.mockServer = services.mockServer;
+    this.schemaValidator = new SchemaValidator();
+    this.recorder = services.recorder || requestRecorder;
+    this.harRecorder = services.harRecorder || harRecorder;
   }
 
   setRequestContext(context: APIRequestContext): void {
     this.requestContext = context;
   }
 
-  // Core request method with circuit breaker and retry logic
+  // Adds to this client's chain, which is shared with every client from the same factory
+  useInterceptor(interceptor: ApiInterceptor): this {
+    this.interceptors.use(interceptor);
+    return this;
+  }
+
+  removeInterceptor(name: string): boolean {
+    return this.interceptors.remove(name);
+  }
+
+  getInterceptorNames(): string[] {
+    return this.interceptors.list();
+  }
+
+  // Core request method: runs the interceptor chain around the circuit-breaker-protected send.
+  // Each call gets a request ID, sent in the correlation header and stamped on every log line it causes
   async request<T = any>(requestConfig: RequestConfig): Promise<ApiResponse<T>> {
-    if (!this.requestContext) {
+    if (!this.requestContext && !this.isMocked()) {
       throw new Error('Request context not initialized. Call setRequestContext() first.');
     }
 
-    const fullUrl = this.buildUrl(requestConfig.url);
-    const headers = this.mergeHeaders(requestConfig.headers);
+    const requestId = correlationContext.nextRequestId();
+    return correlationContext.runWithRequestId(requestId, () => this.dispatch<T>(requestConfig, requestId));
+  }
+
+  private async dispatch<T>(requestConfig: RequestConfig, requestId: string): Promise<ApiResponse<T>> {
+    const intercepted = await this.interceptors.runRequest({
+      config: requestConfig,
+      url: this.buildUrl(requestConfig.url),
+      headers: {
+        ...this.mergeHeaders(requestConfig.headers),
+        [this.config.correlationHeader || DEFAULT_CORRELATION_HEADER]: requestId
+      }
+    });
+
+    if ('response' in intercepted) {
+      this.logger.info(`Request short-circuited by interceptor`, {
+        method: requestConfig.method,
+        url: requestConfig.url,
+        status: intercepted.response.status
+      });
+      return intercepted.response as ApiResponse<T>;
+    }
+
+    const startedAt = Date.now();
+    const cacheKey = this.getCacheKey(intercepted);
+    const cached = cacheKey ? this.responseCache!.lookup(cacheKey, intercepted.headers) : undefined;
+    if (cached?.fresh) {
+      return this.serveFromCache<T>(intercepted, cached.entry, startedAt, requestId);
+    }
+
+    const outgoing = cached ? this.withValidators(intercepted, cached.entry) : intercepted;
+    let response: ApiResponse<T>;
+    try {
+      response = await this.send<T>(outgoing);
+    } catch (error) {
+      response = await this.interceptors
+        .runError<T>(error as Error, outgoing, replayed => this.send(replayed))
+        .catch(failure => {
+          this.recordRequest(intercepted, failure, startedAt, requestId);
+          throw failure;
+        });
+    }
+
+    if (cacheKey) {
+      response = this.applyRevalidation(intercepted, response, cached?.entry);
+    }
+    const cacheOutcome = response.cache;
+
+    response = await this.interceptors.runResponse(response, intercepted);
+    this.recordRequest(intercepted, response, startedAt, requestId);
+    this.enforceResponseSchema(response);
+    this.updateCache(intercepted, response, cacheKey, cacheOutcome);
+
+    return response;
+  }
+
+  // Fresh hits skip the interceptors and schema check, which the stored response passed when it was fetched
+  private serveFromCache<T>(prepared: PreparedRequest, entry: CachedResponse, startedAt: number, requestId: string): ApiResponse<T> {
+    const response = this.responseCache!.toResponse<T>(entry, {
+      config: prepared.config,
+      timing: { startedAt, duration: 0, total: Date.now() - startedAt, retries: 0, size: 0, attempts: [] },
+      cache: 'hit'
+    });
+
+    this.responseCache!.record('hit');
+    this.recordRequest(prepared, response, startedAt, requestId);
+    this.logger.info(`Serving ${prepared.config.method} ${prepared.url} from cache`, {
+      status: response.status,
+      etag: entry.etag
+    });
+
+    return response;
+  }
+
+  // Expecting 304 keeps a Not Modified answer from being thrown as an ApiError
+  private withValidators(prepared: PreparedRequest, entry: CachedResponse): PreparedRequest {
+    return {
+      ...prepared,
+      config: { ...prepared.config, expectedStatus: [...(prepared.config.expectedStatus || []), 304] },
+      headers: { ...prepared.headers, ...this.responseCache!.conditionalHeaders(entry) }
+    };
+  }
+
+  // A 304 is answered with the cached body, so interceptors and callers see the 200 they asked for
+  private applyRevalidation<T>(prepared: PreparedRequest, response: ApiResponse<T>, entry?: CachedResponse): ApiResponse<T> {
+    if (!entry || response.status !== 304) {
+      return { ...response, config: prepared.config, cache: 'miss' };
+    }
+
+    this.responseCache!.refresh(entry, response, this.getCacheTtl());
+    this.logger.info(`Cached ${prepared.config.method} ${prepared.url} revalidated`, { etag: entry.etag });
+    return this.responseCache!.toResponse<T>(entry, { config: prepared.config, timing: response.timing, cache: 'revalidated' });
+  }
+
+  // Stores misses that passed the schema check; a successful write drops cached responses for its URL
+  private updateCache(prepared: PreparedRequest, response: ApiResponse, cacheKey?: string, outcome?: CacheOutcome): void {
+    if (!this.responseCache) {
+      return;
+    }
+
+    if (cacheKey && outcome) {
+      this.responseCache.record(outcome);
+      if (outcome === 'miss') {
+        this.responseCache.store(cacheKey, prepared.headers, response, this.getCacheTtl());
+      }
+      return;
+    }
+
+    if (prepared.config.method !== 'GET' && this.isSuccessStatus(response.status)) {
+      this.responseCache.invalidate(prepared.url);
+    }
+  }
+
+  private getCacheKey(prepared: PreparedRequest): string | undefined {
+    if (!this.responseCache || prepared.config.method !== 'GET' || prepared.config.cache === false) {
+      return undefined;
+    }
+    return this.withQuery(prepared.url, prepared.config.params);
+  }
+
+  private getCacheTtl(): number | undefined {
+    return this.config.cache?.ttlByClient?.[this.constructor.name] ?? this.config.cache?.ttl;
+  }
+
+  // Checks a response against a schema, defaulting to the one its client method declared
+  validateResponseSchema(response: ApiResponse, schema: JsonSchema | undefined = response.config.responseSchema): SchemaValidationResult {
+    if (!schema) {
+      throw new Error(`No response schema declared for ${response.config.method} ${response.config.url}`);
+    }
+
+    return this.schemaValidator.validate(response.data, schema);
+  }
+
+  // Interceptor short-circuits are not recorded; cache hits are, marked cache: 'hit' so reports can tell them from API calls
+  private recordRequest(prepared: PreparedRequest, outcome: ApiResponse | Error, startedAt: number, requestId: string): void {
+    const url = new URL(prepared.url);
+    const failed = outcome instanceof Error;
+    const timing = failed ? (isApiError(outcome) ? outcome.timing : undefined) : outcome.timing;
+    const elapsed = Date.now() - startedAt;
+    const body = prepared.config.data;
+
+    this.recorder.record({
+      requestId,
+      method: prepared.config.method,
+      url: `${url.origin}${url.pathname}`,
+      endpoint: endpointTemplate(url.pathname),
+      status: failed ? (isApiError(outcome) ? outcome.status : undefined) : outcome.status,
+      error: failed && !isApiError(outcome) ? outcome.message : undefined,
+      timestamp: new Date(startedAt).toISOString(),
+      duration: timing?.duration ?? elapsed,
+      total: timing?.total ?? elapsed,
+      retries: timing?.retries,
+      requestSize: body === undefined || body === null ? 0 : Buffer.byteLength(typeof body === 'string' ? body : JSON.stringify(body)),
+      responseSize: timing?.size,
+      cache: failed ? undefined : outcome.cache
+    });
+  }
+
+  // Opt-in through ApiClientConfig.validateSchemas or per call with validateSchema; only 2xx bodies have a contract
+  private enforceResponseSchema(response: ApiResponse): void {
+    const { responseSchema, validateSchema } = response.config;
+
+    if (!responseSchema || !(validateSchema ?? this.config.validateSchemas) || !this.isSuccessStatus(response.status)) {
+      return;
+    }
+
+    const result = this.schemaValidator.validate(response.data, responseSchema);
+    if (result.valid) {
+      return;
+    }
+
+    const error = new SchemaValidationError({
+      schemaName: responseSchema.title || 'response schema',
+      issues: result.issues,
+      status: response.status,
+      body: response.data,
+      request: response.config
+    });
+
+    this.logger.error('Response does not match its schema', {
+      method: response.config.method,
+      url: response.config.url,
+      schema: error.schemaName,
+      issues: result.issues
+    });
+    throw error;
+  }
+
+  private async send<T>(prepared: PreparedRequest): Promise<ApiResponse<T>> {
+    const { config: requestConfig, url: fullUrl, headers } = prepared;
+    const circuitBreaker = this.getCircuitBreaker(fullUrl);
 
     this.logger.info(`Making ${requestConfig.method} request to ${fullUrl}`, {
       method: requestConfig.method,
       url: fullUrl,
       data: requestConfig.data,
       params: requestConfig.params,
-      circuitState: this.circuitBreaker.getState()
+      circuitState: circuitBreaker.getState()
     });
 
-    return await this.circuitBreaker.execute(async () => {
+    return await this.withBulkhead(requestConfig, fullUrl, () => circuitBreaker.execute(async () => {
       let lastError: Error | null = null;
-      const maxRetries = this.config.retries || 0;
+      let attemptsMade = 0;
+      const maxRetries = this.retryPolicy.getMaxRetries();
+      const startedAt = Date.now();
+      const attempts: AttemptTiming[] = [];
 
       for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        attemptsMade = attempt + 1;
+        let attemptTiming: AttemptTiming | undefined;
+
         try {
-          const response = await this.executeRequest(requestConfig, fullUrl, headers);
+          await this.waitForRateLimit(requestConfig, fullUrl);
+
+          attemptTiming = { attempt: attempt + 1, startedAt: Date.now(), duration: 0, size: 0 };
+          attempts.push(attemptTiming);
+
+          const response = await this.executeRequest<T>(requestConfig, fullUrl, headers, attemptTiming);
+          attemptTiming.duration = Date.now() - attemptTiming.startedAt;
+          response.timing = this.buildTiming(startedAt, attempts);
 
           this.logger.info(`Request successful`, {
             status: response.status,
             statusText: response.statusText,
             attempt: attempt + 1,
-            circuitState: this.circuitBreaker.getState()
+            duration: response.timing.duration,
+            totalDuration: response.timing.total,
+            circuitState: circuitBreaker.getState()
           });
 
-          return response as ApiResponse<T>;
+          return response;
         } catch (error) {
           lastError = error as Error;
 
+          if (attemptTiming) {
+            attemptTiming.duration = Date.now() - attemptTiming.startedAt;
+            attemptTiming.error = lastError.message;
+          }
+
+          if (error instanceof ApiError) {
+            error.attempts = attempt + 1;
+            error.timing = this.buildTiming(startedAt, attempts);
+          }
+
           this.logger.warn(`Request failed (attempt ${attempt + 1}/${maxRetries + 1})`, {
             error: (error as Error).message,
+            status: error instanceof ApiError ? error.status : undefined,
             url: fullUrl,
             method: requestConfig.method,
-            circuitState: this.circuitBreaker.getState()
+            circuitState: circuitBreaker.getState()
           });
 
-          if (attempt < maxRetries) {
-            const delay = this.config.retryDelay || 1000;
-            this.logger.info(`Retrying in ${delay}ms...`);
-            await this.sleep(delay);
+          const decision = this.retryPolicy.evaluate(error as Error, requestConfig, attempt);
+
+          if (!decision.shouldRetry) {
+            this.logger.info('Not retrying request', {
+              reason: decision.reason,
+              attempt: attempt + 1,
+              url: fullUrl,
+              method: requestConfig.method
+            });
+            break;
           }
+
+          this.logger.info(`Retrying in ${decision.delay}ms...`, {
+            reason: decision.reason,
+            attempt: attempt + 1,
+            url: fullUrl,
+            method: requestConfig.method
+          });
+          await this.sleep(decision.delay);
         }
       }
 
-      this.logger.error(`Request failed after ${maxRetries + 1} attempts`, {
+      this.logger.error(`Request failed after ${attemptsMade} attempt(s)`, {
         error: lastError?.message,
         url: fullUrl,
         method: requestConfig.method,
-        circuitState: this.circuitBreaker.getState()
+        circuitState: circuitBreaker.getState()
       });
 
       throw lastError || new Error('Request failed after all retry attempts');
-    });
+    }));
+  }
+
+  // A bulkhead slot is held for the whole request, retries and backoff included
+  private async withBulkhead<T>(requestConfig: RequestConfig, url: string, send: () => Promise<T>): Promise<T> {
+    const bulkhead = this.getBulkhead(url);
+    if (!bulkhead) {
+      return send();
+    }
+
+    let waited: number;
+    try {
+      waited = await bulkhead.acquire();
+    } catch (error) {
+      if (isBulkheadRejectedError(error)) {
+        this.logger.warn('Request rejected by bulkhead', {
+          reason: error.reason,
+          url,
+          method: requestConfig.method,
+          bulkhead: bulkhead.getMetrics()
+        });
+      }
+      throw error;
+    }
+
+    if (waited > 0) {
+      this.logger.debug(`Bulkhead full, request queued for ${waited}ms`, { url, method: requestConfig.method });
+    }
+
+    try {
+      return await send();
+    } finally {
+      bulkhead.release();
+    }
   }
 
+  // Fills in the attempt's status and response size; the caller records the duration
   private async executeRequest<T>(
     requestConfig: RequestConfig,
     url: string,
-    headers: Record<string, string>
+    headers: Record<string, string>,
+    attemptTiming: AttemptTiming
   ): Promise<ApiResponse<T>> {
     const options: any = {
       headers,
@@ -109,51 +457,51 @@ export class BaseApiClient {
       options.data = requestConfig.data;
     }
 
-    if (requestConfig.params) {
-      const urlWithParams = new URL(url);
-      Object.entries(requestConfig.params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          urlWithParams.searchParams.append(key, String(value));
-        }
-      });
-      url = urlWithParams.toString();
-    }
+    url = this.withQuery(url, requestConfig.params);
 
     let response: any;
-
-    switch (requestConfig.method) {
-      case 'GET':
-        response = await this.requestContext!.get(url, options);
-        break;
-      case 'POST':
-        response = await this.requestContext!.post(url, options);
-        break;
-      case 'PUT':
-        response = await this.requestContext!.put(url, options);
-        break;
-      case 'PATCH':
-        response = await this.requestContext!.patch(url, options);
-        break;
-      case 'DELETE':
-        response = await this.requestContext!.delete(url, options);
-        break;
-      default:
-        throw new Error(`Unsupported HTTP method: ${requestConfig.method}`);
+    try {
+      response = this.isMocked()
+        ? await this.mockServer!.handle(requestConfig.method, url, options)
+        : await this.sendHttpRequest(requestConfig.method, url, options);
+    } catch (error) {
+      await this.recordHarEntry(requestConfig, url, headers, attemptTiming, undefined, (error as Error).message);
+      throw error;
     }
 
+    attemptTiming.status = response.status();
+    await this.recordHarEntry(requestConfig, url, headers, attemptTiming, response);
+
     if (!response.ok()) {
-      const errorBody: any = await this.safeJsonParse(response);
-      const error: ApiErrorResponse = {
-        error: errorBody?.error || `HTTP ${response.status()}`,
-        message: errorBody?.message || response.statusText(),
-        statusCode: response.status(),
-        timestamp: new Date().toISOString()
-      };
+      const errorBody: any = await this.safeJsonParse(response, attemptTiming);
+
+      if (!this.shouldThrowForStatus(requestConfig, response.status())) {
+        this.logger.info(`Returning HTTP ${response.status()} response without throwing`, {
+          url,
+          method: requestConfig.method,
+          expectedStatus: requestConfig.expectedStatus
+        });
+
+        return {
+          data: errorBody as T,
+          status: response.status(),
+          statusText: response.statusText(),
+          headers: response.headers(),
+          config: requestConfig
+        };
+      }
 
-      throw new Error(`API Error: ${error.error} - ${error.message}`);
+      throw new ApiError({
+        status: response.status(),
+        statusText: response.statusText(),
+        body: errorBody,
+        headers: response.headers(),
+        request: requestConfig,
+        url
+      });
     }
 
-    const data = await this.safeJsonParse<T>(response);
+    const data = await this.safeJsonParse<T>(response, attemptTiming);
 
     return {
       data,
@@ -164,9 +512,104 @@ export class BaseApiClient {
     };
   }
 
-  private async safeJsonParse<T>(response: any): Promise<T> {
+  // Every attempt, retries included, becomes one HAR entry when ApiClientConfig.recordHar is on
+  private async recordHarEntry(
+    requestConfig: RequestConfig,
+    url: string,
+    headers: Record<string, string>,
+    attemptTiming: AttemptTiming,
+    response?: any,
+    error?: string
+  ): Promise<void> {
+    if (!this.config.recordHar) {
+      return;
+    }
+
+    this.harRecorder.record({
+      method: requestConfig.method,
+      url,
+      requestHeaders: headers,
+      requestBody: requestConfig.data,
+      startedAt: attemptTiming.startedAt,
+      duration: Date.now() - attemptTiming.startedAt,
+      response: response && {
+        status: response.status(),
+        statusText: response.statusText(),
+        headers: response.headers(),
+        body: await response.body().catch(() => Buffer.alloc(0))
+      },
+      error
+    });
+  }
+
+  private async sendHttpRequest(method: HttpMethod, url: string, options: any): Promise<any> {
+    switch (method) {
+      case 'GET':
+        return await this.requestContext!.get(url, options);
+      case 'POST':
+        return await this.requestContext!.post(url, options);
+      case 'PUT':
+        return await this.requestContext!.put(url, options);
+      case 'PATCH':
+        return await this.requestContext!.patch(url, options);
+      case 'DELETE':
+        return await this.requestContext!.delete(url, options);
+      default:
+        throw new Error(`Unsupported HTTP method: ${method}`);
+    }
+  }
+
+  private isMocked(): boolean {
+    return !!this.mockServer?.isEnabled();
+  }
+
+  private buildTiming(startedAt: number, attempts: AttemptTiming[]): RequestTiming {
+    const lastAttempt = attempts[attempts.length - 1];
+
+    return {
+      startedAt,
+      duration: lastAttempt?.duration || 0,
+      total: Date.now() - startedAt,
+      retries: Math.max(0, attempts.length - 1),
+      size: lastAttempt?.size || 0,
+      attempts: attempts.map(attempt => ({ ...attempt }))
+    };
+  }
+
+  private async waitForRateLimit(requestConfig: RequestConfig, url: string): Promise<void> {
+    if (!this.rateLimiter) {
+      return;
+    }
+
+    const waited = await this.rateLimiter.acquire();
+    if (waited > 0) {
+      this.logger.debug(`Rate limit reached, request delayed by ${waited}ms`, {
+        url,
+        method: requestConfig.method,
+        rateLimit: this.rateLimiter.getConfig()
+      });
+    }
+  }
+
+  // Non-2xx statuses listed in expectedStatus, or any status when throwOnHttpError is false, are returned to the caller
+  private shouldThrowForStatus(requestConfig: RequestConfig, status: number): boolean {
+    if (requestConfig.expectedStatus?.includes(status)) {
+      return false;
+    }
+
+    const throwOnHttpError = requestConfig.throwOnHttpError ?? this.config.throwOnHttpError ?? true;
+    return throwOnHttpError;
+  }
+
+  protected isSuccessStatus(status: number): boolean {
+    return status >= 200 && status < 300;
+  }
+
+  private async safeJsonParse<T>(response: any, attemptTiming: AttemptTiming): Promise<T> {
     try {
-      return await response.json();
+      const body: Buffer = await response.body();
+      attemptTiming.size = body.length;
+      return JSON.parse(body.toString('utf-8'));
     } catch (error) {
       this.logger.warn('Failed to parse response as JSON', { error: (error as Error).message });
       return {} as T;
@@ -187,6 +630,20 @@ export class BaseApiClient {
     return `${baseUrl}${cleanPath}`;
   }
 
+  private withQuery(url: string, params?: Record<string, any>): string {
+    if (!params) {
+      return url;
+    }
+
+    const urlWithParams = new URL(url);
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        urlWithParams.searchParams.append(key, String(value));
+      }
+    });
+    return urlWithParams.toString();
+  }
+
   private mergeHeaders(requestHeaders?: Record<string, string>): Record<string, string> {
     return {
       ...this.config.headers,
@@ -199,40 +656,151 @@ export class BaseApiClient {
   }
 
   // HTTP method convenience wrappers
-  async get<T = any>(url: string, params?: Record<string, any>, headers?: Record<string, string>): Promise<ApiResponse<T>> {
-    return this.request<T>({ method: 'GET', url, params, headers });
+  async get<T = any>(url: string, params?: Record<string, any>, headers?: Record<string, string>, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>({ method: 'GET', url, params, headers, ...options });
   }
 
-  async post<T = any>(url: string, data?: any, headers?: Record<string, string>): Promise<ApiResponse<T>> {
-    return this.request<T>({ method: 'POST', url, data, headers });
+  async post<T = any>(url: string, data?: any, headers?: Record<string, string>, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>({ method: 'POST', url, data, headers, ...options });
+  }
+
+  async put<T = any>(url: string, data?: any, headers?: Record<string, string>, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>({ method: 'PUT', url, data, headers, ...options });
+  }
+
+  async patch<T = any>(url: string, data?: any, headers?: Record<string, string>, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>({ method: 'PATCH', url, data, headers, ...options });
+  }
+
+  async delete<T = any>(url: string, headers?: Record<string, string>, options?: RequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>({ method: 'DELETE', url, headers, ...options });
+  }
+
+  // Yields each page from startPage up to the first page's total_pages, in page order
+  async *paginatePages<T>(
+    fetchPage: (params: PaginationParams) => Promise<ApiResponse<PaginatedResponse<T>>>,
+    options: PaginateOptions<T> = {}
+  ): AsyncGenerator<ApiResponse<PaginatedResponse<T>>> {
+    const { startPage = 1, perPage, concurrency = 1, maxPages = Infinity } = options;
+    if (concurrency < 1) {
+      throw new Error('Pagination concurrency must be at least 1');
+    }
+
+    const load = async (page: number) => {
+      const response = await fetchPage(perPage === undefined ? { page } : { page, per_page: perPage });
+      if (!Array.isArray(response.data?.data)) {
+        throw new Error(`Page ${page} of ${response.config.url} has no data array (status ${response.status})`);
+      }
+      return response;
+    };
+
+    const first = await load(startPage);
+    yield first;
+
+    const lastPage = Math.min(first.data.total_pages ?? startPage, startPage + maxPages - 1);
+    for (let page = startPage + 1; page <= lastPage; page += concurrency) {
+      const batch = Array.from({ length: Math.min(concurrency, lastPage - page + 1) }, (_, i) => load(page + i));
+      for (const response of await Promise.all(batch)) {
+        yield response;
+      }
+    }
+  }
+
+  // Yields the items of every page; no further pages are requested once maxItems or stopWhen ends the iteration
+  async *paginate<T>(
+    fetchPage: (params: PaginationParams) => Promise<ApiResponse<PaginatedResponse<T>>>,
+    options: PaginateOptions<T> = {}
+  ): AsyncGenerator<T> {
+    const { maxItems = Infinity, stopWhen } = options;
+    if (maxItems <= 0) {
+      return;
+    }
+
+    let count = 0;
+    for await (const response of this.paginatePages(fetchPage, options)) {
+      for (const item of response.data.data) {
+        yield item;
+        count++;
+        if (count >= maxItems || stopWhen?.(item, count - 1)) {
+          this.logger.debug('Pagination stopped early', { page: response.data.page, items: count });
+          return;
+        }
+      }
+    }
+  }
+
+  async fetchAll<T>(
+    fetchPage: (params: PaginationParams) => Promise<ApiResponse<PaginatedResponse<T>>>,
+    options: PaginateOptions<T> = {}
+  ): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this.paginate(fetchPage, options)) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  getMockServer(): MockServer | undefined {
+    return this.mockServer;
+  }
+
+  getRateLimiterMetrics() {
+    return this.rateLimiter?.getMetrics();
+  }
+
+  // Undefined unless ApiClientConfig.cache is set
+  getResponseCache(): ResponseCache | undefined {
+    return this.responseCache;
+  }
+
+  getCacheMetrics() {
+    return this.responseCache?.getMetrics();
+  }
+
+  // Undefined unless ApiClientConfig.bulkhead is set; one per client, or per origin with scope 'host'
+  getBulkhead(url: string = this.config.baseURL): Bulkhead | undefined {
+    const { bulkhead } = this.config;
+    if (!bulkhead) {
+      return undefined;
+    }
+
+    const key = bulkhead.scope === 'host' ? new URL(this.buildUrl(url)).origin : 'client';
+    let instance = this.bulkheads.get(key);
+    if (!instance) {
+      instance = new Bulkhead(bulkhead);
+      this.bulkheads.set(key, instance);
+    }
+    return instance;
   }
 
-  async put<T = any>(url: string, data?: any, headers?: Record<string, string>): Promise<ApiResponse<T>> {
-    return this.request<T>({ method: 'PUT', url, data, headers });
+  getBulkheadMetrics(url?: string) {
+    return this.getBulkhead(url)?.getMetrics();
   }
 
-  async patch<T = any>(url: string, data?: any, headers?: Record<string, string>): Promise<ApiResponse<T>> {
-    return this.request<T>({ method: 'PATCH', url, data, headers });
+  // The breaker guarding url, shared with every client of the same registry; with the endpoint scope pass the path
+  getCircuitBreaker(url: string = this.config.baseURL): CircuitBreaker {
+    const scope = this.config.circuitBreaker?.scope;
+    return this.circuitBreakers.get(circuitBreakerKey(this.buildUrl(url), scope), this.circuitBreakerConfig);
   }
 
-  async delete<T = any>(url: string, headers?: Record<string, string>): Promise<ApiResponse<T>> {
-    return this.request<T>({ method: 'DELETE', url, headers });
+  getCircuitBreakerRegistry(): CircuitBreakerRegistry {
+    return this.circuitBreakers;
   }
 
-  getCircuitBreakerMetrics() {
-    return this.circuitBreaker.getMetrics();
+  getCircuitBreakerMetrics(url?: string) {
+    return this.getCircuitBreaker(url).getMetrics();
   }
 
-  getCircuitBreakerState() {
-    return this.circuitBreaker.getState();
+  getCircuitBreakerState(url?: string) {
+    return this.getCircuitBreaker(url).getState();
   }
 
-  resetCircuitBreaker() {
-    this.circuitBreaker.reset();
-    this.logger.info('Circuit breaker reset');
+  resetCircuitBreaker(url?: string) {
+    this.getCircuitBreaker(url).reset();
+    this.logger.info('Circuit breaker reset', { url: url || this.config.baseURL });
   }
 
-  isCircuitBreakerHealthy() {
-    return this.circuitBreaker.isHealthy();
+  isCircuitBreakerHealthy(url?: string) {
+    return this.getCircuitBreaker(url).isHealthy();
   }
 }
@@ -0,0 +1,136 @@
+import {
+  CircuitBreaker,
+  CircuitBreakerConfig,
+  CircuitBreakerMetrics,
+  CircuitBreakerWindow,
+  CircuitState,
+  CircuitStateChange
+} from '../utils/circuit-breaker';
+import { Clock, systemClock } from '../utils/clock';
+import { Logger } from '../utils/logger';
+import { endpointTemplate } from './request-recorder';
+
+// Name of the per-test attachment holding breaker snapshots; CustomApiTestReporter keeps the latest per breaker
+export const CIRCUIT_BREAKERS_ATTACHMENT = 'circuit-breakers';
+
+// host: one breaker per origin. endpoint: one per origin and path template, so /api/users/2 and /api/users/7 share
+export type CircuitBreakerScope = 'host' | 'endpoint';
+
+export interface CircuitBreakerSnapshot {
+  registry: string;
+  key: string;
+  state: CircuitState;
+  metrics: CircuitBreakerMetrics;
+  window: CircuitBreakerWindow;
+}
+
+export interface CircuitBreakerRegistryMetrics {
+  breakers: number;
+  open: number;
+  halfOpen: number;
+  closed: number;
+  totalRequests: number;
+  successfulRequests: number;
+  failedRequests: number;
+  slowRequests: number;
+  rejectedRequests: number;
+}
+
+export const circuitBreakerKey = (url: string, scope: CircuitBreakerScope = 'host'): string => {
+  const parsed = new URL(url);
+  return scope === 'host' ? parsed.origin : `${parsed.origin}${endpointTemplate(parsed.pathname)}`;
+};
+
+let registryCount = 0;
+
+// Hands out one CircuitBreaker per key, so every client sending to the same host or endpoint shares its state
+export class CircuitBreakerRegistry {
+  private name: string;
+  private clock: Clock;
+  private breakers: Map<string, CircuitBreaker>;
+  private logger: Logger;
+
+  // name: tells registries apart in the reporter, since breaker keys repeat across factories and workers
+  constructor(name: string = `registry-${process.pid}-${++registryCount}`, clock: Clock = systemClock) {
+    this.name = name;
+    this.clock = clock;
+    this.breakers = new Map();
+    this.logger = new Logger('CircuitBreakerRegistry', { registry: name });
+  }
+
+  // The first caller's config creates the breaker; later callers share it as it is
+  get(key: string, config: CircuitBreakerConfig): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(config, this.clock);
+      breaker.onStateChange(change => this.logTransition(key, change));
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  find(key: string): CircuitBreaker | undefined {
+    return this.breakers.get(key);
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  keys(): string[] {
+    return Array.from(this.breakers.keys());
+  }
+
+  // Admin view of every breaker, sorted by key
+  getSnapshots(): CircuitBreakerSnapshot[] {
+    return Array.from(this.breakers.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, breaker]) => ({
+        registry: this.name,
+        key,
+        state: breaker.getState(),
+        metrics: breaker.getMetrics(),
+        window: breaker.getWindow()
+      }));
+  }
+
+  getAggregateMetrics(): CircuitBreakerRegistryMetrics {
+    return aggregateCircuitBreakers(this.getSnapshots());
+  }
+
+  reset(key?: string): void {
+    if (key) {
+      this.breakers.get(key)?.reset();
+      return;
+    }
+    this.breakers.forEach(breaker => breaker.reset());
+  }
+
+  clear(): void {
+    this.breakers.clear();
+  }
+
+  private logTransition(key: string, change: CircuitStateChange): void {
+    const meta = { key, from: change.from, to: change.to, reason: change.reason };
+    if (change.to === CircuitState.CLOSED) {
+      this.logger.info(`Circuit breaker for ${key} closed`, meta);
+    } else {
+      this.logger.warn(`Circuit breaker for ${key} is ${change.to}`, meta);
+    }
+  }
+}
+
+export const aggregateCircuitBreakers = (snapshots: CircuitBreakerSnapshot[]): CircuitBreakerRegistryMetrics => ({
+  breakers: snapshots.length,
+  open: snapshots.filter(s => s.state === CircuitState.OPEN).length,
+  halfOpen: snapshots.filter(s => s.state === CircuitState.HALF_OPEN).length,
+  closed: snapshots.filter(s => s.state === CircuitState.CLOSED).length,
+  totalRequests: snapshots.reduce((sum, s) => sum + s.metrics.totalRequests, 0),
+  successfulRequests: snapshots.reduce((sum, s) => sum + s.metrics.successfulRequests, 0),
+  failedRequests: snapshots.reduce((sum, s) => sum + s.metrics.failedRequests, 0),
+  slowRequests: snapshots.reduce((sum, s) => sum + s.metrics.slowRequests, 0),
+  rejectedRequests: snapshots.reduce((sum, s) => sum + s.metrics.rejectedRequests, 0)
+});
+
+// Shared by factories created with circuitBreaker.sharing 'worker', so breaker state carries over between tests
+export const circuitBreakerRegistry = new CircuitBreakerRegistry(`worker-${process.pid}`);
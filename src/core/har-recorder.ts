@@ -0,0 +1,113 @@
+import { HarEntry, HarLog, HarNameValue, HttpMethod } from '@/types';
+import { Redactor } from '../utils/redaction';
+
+// Name of the per-test attachment holding the HAR file; CustomApiTestReporter links to it
+export const HAR_ATTACHMENT = 'api-traffic.har';
+
+// One HTTP attempt as sent by BaseApiClient; response is undefined when the request failed without one
+export interface HttpExchange {
+  method: HttpMethod;
+  url: string; // including the query string
+  requestHeaders: Record<string, string>;
+  requestBody?: unknown;
+  startedAt: number;
+  duration: number;
+  response?: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: Buffer;
+  };
+  error?: string;
+}
+
+const toNameValues = (values: Record<string, string>): HarNameValue[] =>
+  Object.entries(values).map(([name, value]) => ({ name, value }));
+
+// Collects request/response pairs as HAR 1.2 entries, masking secrets before anything is stored
+export class HarRecorder {
+  private entries: HarEntry[] = [];
+  private redactor: Redactor;
+
+  constructor(redactor: Redactor = new Redactor()) {
+    this.redactor = redactor;
+  }
+
+  record(exchange: HttpExchange): void {
+    const url = this.redactor.redactUrl(exchange.url);
+    const requestText = this.serializeBody(exchange.requestBody);
+    const { response } = exchange;
+    const responseText = response && response.body.length > 0
+      ? this.redactor.redactJson(response.body.toString('utf-8'))
+      : undefined;
+
+    this.entries.push({
+      startedDateTime: new Date(exchange.startedAt).toISOString(),
+      time: exchange.duration,
+      request: {
+        method: exchange.method,
+        url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toNameValues(this.redactor.redactHeaders(exchange.requestHeaders)),
+        queryString: Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value })),
+        ...(requestText !== undefined && { postData: { mimeType: 'application/json', text: requestText } }),
+        headersSize: -1,
+        bodySize: requestText === undefined ? 0 : Buffer.byteLength(requestText)
+      },
+      response: {
+        status: response?.status ?? 0,
+        statusText: response?.statusText ?? '',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toNameValues(this.redactor.redactHeaders(response?.headers || {})),
+        content: {
+          size: response?.body.length ?? 0,
+          mimeType: response?.headers['content-type'] || 'application/json',
+          ...(responseText !== undefined && { text: responseText })
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: response?.body.length ?? 0
+      },
+      cache: {},
+      timings: { send: 0, wait: exchange.duration, receive: 0 },
+      ...(exchange.error && { _error: exchange.error })
+    });
+  }
+
+  getEntries(): HarEntry[] {
+    return [...this.entries];
+  }
+
+  toHar(entries: HarEntry[] = this.entries): HarLog {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'api-testing-framework-ultimateqa', version: '1.0.0' },
+        entries
+      }
+    };
+  }
+
+  // Returns the HAR for everything recorded so far and starts over
+  drain(): HarLog {
+    const har = this.toHar();
+    this.entries = [];
+    return har;
+  }
+
+  reset(): void {
+    this.entries = [];
+  }
+
+  private serializeBody(body: unknown): string | undefined {
+    if (body === undefined || body === null) {
+      return undefined;
+    }
+    return typeof body === 'string' ? this.redactor.redactJson(body) : JSON.stringify(this.redactor.redact(body));
+  }
+}
+
+// Default recorder for every client in the worker; clients only write to it when recordHar is on
+export const harRecorder = new HarRecorder();
@@ -0,0 +1,109 @@
+import { ApiResponse, RequestConfig } from '@/types';
+
+// Request as it is about to be sent: resolved URL and merged headers alongside the caller's config
+export interface PreparedRequest {
+  config: RequestConfig;
+  url: string;
+  headers: Record<string, string>;
+}
+
+// Returned from onRequest to answer the request without sending it
+export interface ShortCircuit<T = any> {
+  response: ApiResponse<T>;
+}
+
+export type RequestInterceptorResult = PreparedRequest | ShortCircuit | void;
+
+// Sends a request again, bypassing the chain's error hooks so a recovery cannot loop
+export type ReplayRequest = <T = any>(request: PreparedRequest) => Promise<ApiResponse<T>>;
+
+export interface ApiInterceptor {
+  name: string;
+  onRequest?(request: PreparedRequest): RequestInterceptorResult | Promise<RequestInterceptorResult>;
+  onResponse?(response: ApiResponse, request: PreparedRequest): ApiResponse | void | Promise<ApiResponse | void>;
+  onError?(
+    error: Error,
+    request: PreparedRequest,
+    replay: ReplayRequest
+  ): ApiResponse | void | Promise<ApiResponse | void>;
+}
+
+const isShortCircuit = (result: RequestInterceptorResult): result is ShortCircuit => {
+  return !!result && 'response' in result;
+};
+
+// Ordered interceptors: onRequest runs first-to-last, onResponse and onError run last-to-first
+export class InterceptorChain {
+  private interceptors: ApiInterceptor[] = [];
+
+  use(interceptor: ApiInterceptor): this {
+    this.interceptors = this.interceptors.filter(existing => existing.name !== interceptor.name);
+    this.interceptors.push(interceptor);
+    return this;
+  }
+
+  remove(name: string): boolean {
+    const before = this.interceptors.length;
+    this.interceptors = this.interceptors.filter(interceptor => interceptor.name !== name);
+    return this.interceptors.length < before;
+  }
+
+  has(name: string): boolean {
+    return this.interceptors.some(interceptor => interceptor.name === name);
+  }
+
+  list(): string[] {
+    return this.interceptors.map(interceptor => interceptor.name);
+  }
+
+  clear(): void {
+    this.interceptors = [];
+  }
+
+  async runRequest(request: PreparedRequest): Promise<PreparedRequest | ShortCircuit> {
+    let current = request;
+
+    for (const interceptor of this.interceptors) {
+      if (!interceptor.onRequest) {
+        continue;
+      }
+
+      const result = await interceptor.onRequest(current);
+      if (isShortCircuit(result)) {
+        return result;
+      }
+
+      current = result || current;
+    }
+
+    return current;
+  }
+
+  async runResponse<T>(response: ApiResponse<T>, request: PreparedRequest): Promise<ApiResponse<T>> {
+    let current = response;
+
+    for (const interceptor of [...this.interceptors].reverse()) {
+      if (interceptor.onResponse) {
+        current = (await interceptor.onResponse(current, request)) || current;
+      }
+    }
+
+    return current;
+  }
+
+  // Rethrows the error unless an interceptor recovers it by returning a response
+  async runError<T>(error: Error, request: PreparedRequest, replay: ReplayRequest): Promise<ApiResponse<T>> {
+    for (const interceptor of [...this.interceptors].reverse()) {
+      if (!interceptor.onError) {
+        continue;
+      }
+
+      const recovered = await interceptor.onError(error, request, replay);
+      if (recovered) {
+        return recovered as ApiResponse<T>;
+      }
+    }
+
+    throw error;
+  }
+}
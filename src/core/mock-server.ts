@@ -0,0 +1,251 @@
+import { HttpMethod, MockConfig, MockRequest, MockResponse, MockRoute } from '@/types';
+import { FixtureManager, reqresMockRoutes } from '@/fixtures';
+import { Clock, systemClock } from '../utils/clock';
+import { Logger } from '../utils/logger';
+
+// Subset of Playwright's APIResponse that BaseApiClient reads, so mocked and live responses share one code path
+export interface MockedResponse {
+  ok(): boolean;
+  status(): number;
+  statusText(): string;
+  headers(): Record<string, string>;
+  body(): Promise<Buffer>;
+}
+
+export interface MockRequestOptions {
+  data?: any;
+  headers?: Record<string, string>;
+  timeout?: number;
+}
+
+export interface UnmatchedRequest {
+  method: HttpMethod;
+  url: string;
+  path: string;
+  timestamp: Date;
+}
+
+interface CompiledRoute {
+  endpoint: string;
+  method?: HttpMethod;
+  pattern: RegExp;
+  paramNames: string[];
+  query: Record<string, string>;
+  specificity: number;
+  order: number;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout'
+};
+
+// Answers client requests from mock routes registered on a FixtureManager instead of the network
+export class MockServer {
+  private config: MockConfig;
+  private fixtureManager: FixtureManager;
+  private clock: Clock;
+  private logger: Logger;
+  private unmatchedRequests: UnmatchedRequest[] = [];
+  private servedCount = 0;
+
+  // Starts with the reqres.in routes; config.responses are registered on top of them
+  constructor(
+    config: Partial<MockConfig> = {},
+    fixtureManager: FixtureManager = new FixtureManager(),
+    clock: Clock = systemClock
+  ) {
+    this.config = {
+      enabled: config.enabled ?? true,
+      responses: config.responses || new Map(),
+      defaultDelay: config.defaultDelay || 0
+    };
+    this.fixtureManager = fixtureManager;
+    this.clock = clock;
+    this.logger = new Logger('MockServer');
+
+    Object.entries(reqresMockRoutes).forEach(([endpoint, route]) => this.register(endpoint, route));
+    this.config.responses.forEach((route, endpoint) => this.register(endpoint, route));
+  }
+
+  // Endpoint is "METHOD /path" or "/path" for any method; `:name` matches one segment, `*` the rest of the path
+  register(endpoint: string, route: MockRoute): this {
+    this.compile(endpoint);
+    this.fixtureManager.registerMockResponse(endpoint, route);
+    return this;
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.config.enabled = enabled;
+  }
+
+  async handle(method: HttpMethod, url: string, options: MockRequestOptions = {}): Promise<MockedResponse> {
+    const parsedUrl = new URL(url);
+    const query = Object.fromEntries(parsedUrl.searchParams.entries());
+    const match = this.match(method, parsedUrl.pathname, query);
+
+    if (!match) {
+      this.unmatchedRequests.push({ method, url, path: parsedUrl.pathname, timestamp: new Date() });
+      this.logger.warn('No mock response registered for request', { method, url });
+
+      return this.toResponse({
+        status: 501,
+        data: { error: 'No mock response registered', method, path: parsedUrl.pathname },
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const request: MockRequest = {
+      method,
+      path: parsedUrl.pathname,
+      query,
+      params: match.params,
+      headers: options.headers || {},
+      body: options.data
+    };
+    const mockResponse = typeof match.route === 'function' ? match.route(request) : match.route;
+    const delay = mockResponse.delay ?? this.config.defaultDelay;
+
+    if (options.timeout && delay > options.timeout) {
+      await this.clock.sleep(options.timeout);
+      throw new Error(`Timeout ${options.timeout}ms exceeded while waiting for mock response to ${method} ${url}`);
+    }
+
+    if (delay > 0) {
+      await this.clock.sleep(delay);
+    }
+
+    this.servedCount++;
+    this.logger.debug('Served mock response', {
+      method,
+      url,
+      endpoint: match.endpoint,
+      status: mockResponse.status,
+      delay
+    });
+
+    return this.toResponse(mockResponse);
+  }
+
+  getUnmatchedRequests(): UnmatchedRequest[] {
+    return [...this.unmatchedRequests];
+  }
+
+  getServedCount(): number {
+    return this.servedCount;
+  }
+
+  listRoutes(): string[] {
+    return this.fixtureManager.listMockResponses();
+  }
+
+  // Clears recorded traffic and restores the default routes
+  reset(): void {
+    this.unmatchedRequests = [];
+    this.servedCount = 0;
+    this.fixtureManager.clearMockResponses();
+    Object.entries(reqresMockRoutes).forEach(([endpoint, route]) => this.register(endpoint, route));
+    this.config.responses.forEach((route, endpoint) => this.register(endpoint, route));
+  }
+
+  // Most specific pattern wins; among equally specific patterns the last registered wins
+  private match(
+    method: HttpMethod,
+    path: string,
+    query: Record<string, string>
+  ): { endpoint: string; route: MockRoute; params: Record<string, string> } | undefined {
+    const candidates = this.fixtureManager.listMockResponses()
+      .map((endpoint, order) => ({ ...this.compile(endpoint), order }))
+      .filter(compiled => !compiled.method || compiled.method === method)
+      .filter(compiled => Object.entries(compiled.query).every(([key, value]) => query[key] === value))
+      .filter(compiled => compiled.pattern.test(path))
+      .sort((a, b) => b.specificity - a.specificity || b.order - a.order);
+
+    const best = candidates[0];
+    if (!best) {
+      return undefined;
+    }
+
+    const values = best.pattern.exec(path)!.slice(1);
+    const params = Object.fromEntries(best.paramNames.map((name, index) => [name, decodeURIComponent(values[index])]));
+
+    return { endpoint: best.endpoint, route: this.fixtureManager.getMockResponse(best.endpoint)!, params };
+  }
+
+  private compile(endpoint: string): Omit<CompiledRoute, 'order'> {
+    const [first, second] = endpoint.trim().split(/\s+/);
+    const method = second ? first.toUpperCase() as HttpMethod : undefined;
+    const target = second || first;
+
+    if (!target.startsWith('/')) {
+      throw new Error(`Invalid mock endpoint "${endpoint}": path must start with "/"`);
+    }
+
+    const [path, queryString] = target.split('?');
+    const paramNames: string[] = [];
+    let specificity = method ? 1 : 0;
+
+    const segments = path.split('/').filter(segment => segment.length > 0).map(segment => {
+      if (segment === '*') {
+        specificity += 1;
+        paramNames.push('wildcard');
+        return '(.*)';
+      }
+
+      if (segment.startsWith(':')) {
+        specificity += 2;
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+
+      specificity += 3;
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    });
+
+    const query = Object.fromEntries(new URLSearchParams(queryString || '').entries());
+    specificity += Object.keys(query).length;
+
+    return {
+      endpoint,
+      method,
+      pattern: new RegExp(`^/${segments.join('/')}/?$`),
+      paramNames,
+      query,
+      specificity
+    };
+  }
+
+  private toResponse(mockResponse: MockResponse): MockedResponse {
+    const body = mockResponse.data === null || mockResponse.data === undefined
+      ? Buffer.alloc(0)
+      : Buffer.from(typeof mockResponse.data === 'string' ? mockResponse.data : JSON.stringify(mockResponse.data));
+    const headers = Object.fromEntries(
+      Object.entries({ ...mockResponse.headers, 'x-mock-response': 'true' })
+        .map(([name, value]) => [name.toLowerCase(), value])
+    );
+
+    return {
+      ok: () => mockResponse.status >= 200 && mockResponse.status < 300,
+      status: () => mockResponse.status,
+      statusText: () => STATUS_TEXT[mockResponse.status] || '',
+      headers: () => headers,
+      body: async () => body
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { RequestRecord } from '@/types';
+
+// Name of the per-test attachment CustomApiTestReporter reads request records from
+export const REQUEST_RECORDS_ATTACHMENT = 'api-requests';
+
+const ID_SEGMENT = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+// Collapses numeric and UUID path segments so /api/users/2 and /api/users/7 count as one endpoint
+export const endpointTemplate = (pathname: string): string =>
+  pathname
+    .split('/')
+    .map(segment => (ID_SEGMENT.test(segment) ? '{id}' : segment))
+    .join('/');
+
+// Collects the calls clients make until the test fixture drains them into an attachment
+export class RequestRecorder {
+  private records: RequestRecord[] = [];
+
+  record(record: RequestRecord): void {
+    this.records.push(record);
+  }
+
+  getRecords(): RequestRecord[] {
+    return [...this.records];
+  }
+
+  // Returns everything recorded so far and starts over
+  drain(): RequestRecord[] {
+    const records = this.records;
+    this.records = [];
+    return records;
+  }
+
+  reset(): void {
+    this.records = [];
+  }
+}
+
+// Default recorder for every client in the worker, so calls from factories built inside a spec are counted too
+export const requestRecorder = new RequestRecorder();
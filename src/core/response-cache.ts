@@ -0,0 +1,306 @@
+import { ApiResponse, CacheOutcome } from '@/types';
+import { Clock, systemClock } from '../utils/clock';
+
+export interface CacheControl {
+  maxAge?: number; // in seconds
+  noStore: boolean;
+  noCache: boolean;
+  private: boolean;
+  public: boolean;
+  mustRevalidate: boolean;
+}
+
+export interface CachedResponse {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: unknown;
+  etag?: string;
+  lastModified?: string;
+  vary: Record<string, string>; // request header values the response varies on
+  storedAt: number;
+  expiresAt: number; // equal to storedAt when every use must be revalidated
+}
+
+export interface ResponseCacheMetrics {
+  hits: number; // served without a request
+  revalidated: number; // conditional request answered 304
+  misses: number;
+  stored: number;
+  evictions: number;
+  entries: number;
+  hitRate: number; // percent of lookups that needed no response body
+}
+
+export interface CacheLookup {
+  entry: CachedResponse;
+  fresh: boolean;
+}
+
+// Expectations for ResponseCache.checkHeaders; every check is skipped unless asked for
+export interface CacheHeaderExpectations {
+  etag?: boolean;
+  lastModified?: boolean;
+  minMaxAge?: number; // in seconds
+  maxMaxAge?: number;
+  cacheable?: boolean; // no no-store, and either a max-age or a validator to revalidate with
+}
+
+const ETAG_PATTERN = /^(W\/)?"[^"]*"$/;
+
+export const headerValue = (headers: Record<string, string> | undefined, name: string): string | undefined => {
+  const match = Object.keys(headers || {}).find(key => key.toLowerCase() === name.toLowerCase());
+  return match === undefined ? undefined : headers![match];
+};
+
+export const parseCacheControl = (value: string | undefined): CacheControl => {
+  const directives = new Map(
+    (value || '')
+      .split(',')
+      .map(directive => directive.trim().toLowerCase())
+      .filter(Boolean)
+      .map(directive => {
+        const [name, argument] = directive.split('=');
+        return [name.trim(), argument?.trim().replace(/^"|"$/g, '')] as const;
+      })
+  );
+  const maxAge = Number(directives.get('max-age'));
+
+  return {
+    maxAge: directives.has('max-age') && Number.isInteger(maxAge) && maxAge >= 0 ? maxAge : undefined,
+    noStore: directives.has('no-store'),
+    noCache: directives.has('no-cache'),
+    private: directives.has('private'),
+    public: directives.has('public'),
+    mustRevalidate: directives.has('must-revalidate')
+  };
+};
+
+// Private HTTP cache for GET responses, shared by the clients of one ApiClientFactory
+export class ResponseCache {
+  private entries: Map<string, CachedResponse>;
+  private maxEntries: number;
+  private clock: Clock;
+  private metrics: Omit<ResponseCacheMetrics, 'entries' | 'hitRate'>;
+
+  constructor(maxEntries: number = 500, clock: Clock = systemClock) {
+    this.entries = new Map();
+    this.maxEntries = maxEntries;
+    this.clock = clock;
+    this.metrics = this.createEmptyMetrics();
+  }
+
+  // url includes the query string; an entry stored under other Vary header values is a miss
+  lookup(url: string, requestHeaders: Record<string, string>): CacheLookup | undefined {
+    const entry = this.entries.get(url);
+    if (!entry) {
+      return undefined;
+    }
+
+    const varies = Object.entries(entry.vary).some(([name, value]) => (headerValue(requestHeaders, name) ?? '') !== value);
+    if (varies) {
+      return undefined;
+    }
+
+    // Re-inserting keeps the map in least recently used order
+    this.entries.delete(url);
+    this.entries.set(url, entry);
+    return { entry, fresh: this.clock.now() < entry.expiresAt };
+  }
+
+  // Validators for a conditional request revalidating entry
+  conditionalHeaders(entry: CachedResponse): Record<string, string> {
+    return {
+      ...(entry.etag && { 'If-None-Match': entry.etag }),
+      ...(entry.lastModified && { 'If-Modified-Since': entry.lastModified })
+    };
+  }
+
+  // ttl (ms) replaces the lifetime from Cache-Control max-age or Expires, but never overrides no-store or no-cache
+  store(url: string, requestHeaders: Record<string, string>, response: ApiResponse, ttl?: number): CachedResponse | undefined {
+    const cacheControl = parseCacheControl(headerValue(response.headers, 'cache-control'));
+    const vary = headerValue(response.headers, 'vary');
+    const etag = headerValue(response.headers, 'etag');
+    const lastModified = headerValue(response.headers, 'last-modified');
+
+    if (response.status !== 200 || cacheControl.noStore || vary?.trim() === '*') {
+      this.entries.delete(url);
+      return undefined;
+    }
+
+    const storedAt = this.clock.now();
+    const lifetime = this.freshnessLifetime(response.headers, cacheControl, storedAt, ttl);
+    if (lifetime <= 0 && !etag && !lastModified) {
+      this.entries.delete(url);
+      return undefined;
+    }
+
+    const entry: CachedResponse = {
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: { ...response.headers },
+      data: structuredClone(response.data),
+      etag,
+      lastModified,
+      vary: Object.fromEntries(
+        (vary || '')
+          .split(',')
+          .map(name => name.trim().toLowerCase())
+          .filter(Boolean)
+          .map(name => [name, headerValue(requestHeaders, name) ?? ''])
+      ),
+      storedAt,
+      expiresAt: storedAt + lifetime
+    };
+
+    this.entries.delete(url);
+    this.entries.set(url, entry);
+    this.metrics.stored++;
+    this.evict();
+    return entry;
+  }
+
+  // A 304 confirms the entry; its headers replace the stored ones and restart the freshness lifetime
+  refresh(entry: CachedResponse, notModified: ApiResponse, ttl?: number): CachedResponse {
+    const headers = { ...entry.headers };
+    Object.entries(notModified.headers).forEach(([name, value]) => {
+      if (!['content-length', 'content-type'].includes(name.toLowerCase())) {
+        headers[name] = value;
+      }
+    });
+
+    const now = this.clock.now();
+    const cacheControl = parseCacheControl(headerValue(headers, 'cache-control'));
+    entry.headers = headers;
+    entry.etag = headerValue(headers, 'etag') ?? entry.etag;
+    entry.lastModified = headerValue(headers, 'last-modified') ?? entry.lastModified;
+    entry.storedAt = now;
+    entry.expiresAt = now + this.freshnessLifetime(headers, cacheControl, now, ttl);
+    return entry;
+  }
+
+  // Builds the response handed to callers; the body is copied so callers cannot change the stored one
+  toResponse<T>(entry: CachedResponse, response: Omit<ApiResponse<T>, 'data' | 'status' | 'statusText' | 'headers'>): ApiResponse<T> {
+    return {
+      ...response,
+      data: structuredClone(entry.data) as T,
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: { ...entry.headers }
+    };
+  }
+
+  record(outcome: CacheOutcome): void {
+    if (outcome === 'hit') {
+      this.metrics.hits++;
+    } else if (outcome === 'revalidated') {
+      this.metrics.revalidated++;
+    } else {
+      this.metrics.misses++;
+    }
+  }
+
+  // Drops entries for url whatever their query string, as a successful POST, PUT, PATCH or DELETE to it does
+  invalidate(url: string): number {
+    const path = url.split('?')[0];
+    const stale = Array.from(this.entries.keys()).filter(key => key.split('?')[0] === path);
+    stale.forEach(key => this.entries.delete(key));
+    return stale.length;
+  }
+
+  getMetrics(): ResponseCacheMetrics {
+    const lookups = this.metrics.hits + this.metrics.revalidated + this.metrics.misses;
+    return {
+      ...this.metrics,
+      entries: this.entries.size,
+      hitRate: lookups === 0 ? 0 : Math.round(((this.metrics.hits + this.metrics.revalidated) / lookups) * 100)
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.metrics = this.createEmptyMetrics();
+  }
+
+  // Problems with a response's caching headers, empty when it meets the expectations
+  static checkHeaders(headers: Record<string, string>, expectations: CacheHeaderExpectations = {}): string[] {
+    const issues: string[] = [];
+    const cacheControlHeader = headerValue(headers, 'cache-control');
+    const cacheControl = parseCacheControl(cacheControlHeader);
+    const etag = headerValue(headers, 'etag');
+    const lastModified = headerValue(headers, 'last-modified');
+
+    if (etag !== undefined && !ETAG_PATTERN.test(etag.trim())) {
+      issues.push(`ETag ${etag} is not a quoted entity tag`);
+    } else if (expectations.etag && etag === undefined) {
+      issues.push('ETag header is missing');
+    }
+
+    if (lastModified !== undefined && Number.isNaN(Date.parse(lastModified))) {
+      issues.push(`Last-Modified ${lastModified} is not an HTTP date`);
+    } else if (lastModified !== undefined && Date.parse(lastModified) > Date.now()) {
+      issues.push(`Last-Modified ${lastModified} is in the future`);
+    } else if (expectations.lastModified && lastModified === undefined) {
+      issues.push('Last-Modified header is missing');
+    }
+
+    if (cacheControlHeader !== undefined && /max-age/i.test(cacheControlHeader) && cacheControl.maxAge === undefined) {
+      issues.push(`Cache-Control ${cacheControlHeader} has an invalid max-age`);
+    }
+    if (cacheControl.noStore && cacheControl.maxAge !== undefined) {
+      issues.push(`Cache-Control ${cacheControlHeader} combines no-store with max-age`);
+    }
+
+    if (expectations.minMaxAge !== undefined || expectations.maxMaxAge !== undefined) {
+      const { maxAge } = cacheControl;
+      if (maxAge === undefined) {
+        issues.push('Cache-Control has no max-age');
+      } else if (maxAge < (expectations.minMaxAge ?? 0) || maxAge > (expectations.maxMaxAge ?? Infinity)) {
+        issues.push(`Cache-Control max-age ${maxAge} is outside ${expectations.minMaxAge ?? 0}-${expectations.maxMaxAge ?? '∞'}s`);
+      }
+    }
+
+    if (expectations.cacheable) {
+      if (cacheControl.noStore) {
+        issues.push('Cache-Control no-store forbids caching');
+      } else if (cacheControl.maxAge === undefined && etag === undefined && lastModified === undefined) {
+        issues.push('Neither a max-age nor a validator (ETag or Last-Modified) is present');
+      }
+    }
+
+    return issues;
+  }
+
+  private freshnessLifetime(headers: Record<string, string>, cacheControl: CacheControl, now: number, ttl?: number): number {
+    if (cacheControl.noCache) {
+      return 0;
+    }
+    if (ttl !== undefined) {
+      return ttl;
+    }
+    if (cacheControl.maxAge !== undefined) {
+      return cacheControl.maxAge * 1000;
+    }
+
+    const expires = Date.parse(headerValue(headers, 'expires') || '');
+    if (Number.isNaN(expires)) {
+      return 0;
+    }
+    const date = Date.parse(headerValue(headers, 'date') || '');
+    return Math.max(0, expires - (Number.isNaN(date) ? now : date));
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.metrics.evictions++;
+    }
+  }
+
+  private createEmptyMetrics(): Omit<ResponseCacheMetrics, 'entries' | 'hitRate'> {
+    return { hits: 0, revalidated: 0, misses: 0, stored: 0, evictions: 0 };
+  }
+}
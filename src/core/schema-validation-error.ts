@@ -0,0 +1,39 @@
+import { RequestConfig, SchemaIssue } from '@/types';
+import { SchemaValidator } from '@/utils/schema-validator';
+
+export interface SchemaValidationErrorDetails {
+  schemaName: string;
+  issues: SchemaIssue[];
+  status: number;
+  body: any;
+  request: RequestConfig;
+}
+
+// Thrown when schema enforcement is on and a successful response breaks its declared contract
+export class SchemaValidationError extends Error {
+  readonly schemaName: string;
+  readonly issues: SchemaIssue[];
+  readonly status: number;
+  readonly body: any;
+  readonly request: RequestConfig;
+
+  constructor(details: SchemaValidationErrorDetails) {
+    super(
+      `Schema Error: ${details.request.method} ${details.request.url} returned ${details.status} ` +
+      `not matching ${details.schemaName} (${details.issues.length} issue(s))\n${SchemaValidator.formatIssues(details.issues)}`
+    );
+
+    this.name = 'SchemaValidationError';
+    this.schemaName = details.schemaName;
+    this.issues = details.issues;
+    this.status = details.status;
+    this.body = details.body;
+    this.request = details.request;
+
+    Object.setPrototypeOf(this, SchemaValidationError.prototype);
+  }
+}
+
+export const isSchemaValidationError = (error: unknown): error is SchemaValidationError => {
+  return error instanceof SchemaValidationError;
+};
@@ -0,0 +1,41 @@
+export interface AuthSession {
+  token: string;
+  email?: string;
+  obtainedAt: Date;
+  refreshedAt?: Date;
+}
+
+// Holds the bearer token for every client created by one ApiClientFactory
+export class TokenStore {
+  private session?: AuthSession;
+
+  setSession(token: string, email?: string): AuthSession {
+    this.session = { token, email, obtainedAt: new Date() };
+    return { ...this.session };
+  }
+
+  updateToken(token: string): void {
+    if (!this.session) {
+      this.setSession(token);
+      return;
+    }
+
+    this.session = { ...this.session, token, refreshedAt: new Date() };
+  }
+
+  getToken(): string | undefined {
+    return this.session?.token;
+  }
+
+  getSession(): AuthSession | undefined {
+    return this.session ? { ...this.session } : undefined;
+  }
+
+  isAuthenticated(): boolean {
+    return !!this.session;
+  }
+
+  clear(): void {
+    this.session = undefined;
+  }
+}
@@ -1,5 +1,5 @@
 import { faker } from '@faker-js/faker';
-import { TestResource, ResourceFactory } from '@/types';
+import { TestResource, ResourceFactory, CreateResourceRequest } from '@/types';
 
 export class ResourceDataFactory implements ResourceFactory {
   createResource(overrides?: Partial<TestResource>): TestResource {
@@ -28,6 +28,16 @@ export class ResourceDataFactory implements ResourceFactory {
     });
   }
 
+  createResourceForCreation(overrides?: Partial<CreateResourceRequest>): CreateResourceRequest {
+    return {
+      name: faker.commerce.productName(),
+      year: faker.date.between({ from: '2000-01-01', to: '2024-12-31' }).getFullYear(),
+      color: faker.color.rgb({ format: 'hex' }),
+      pantone_value: this.generatePantoneValue(),
+      ...overrides
+    };
+  }
+
   // Create resource with invalid data for negative testing
   createInvalidResource(): TestResource {
     return this.createResource({
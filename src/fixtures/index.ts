@@ -2,14 +2,15 @@ export * from './users.fixture';
 
 export * from './resources.fixture';
 export * from './api-responses.fixture';
-import { TestFixture, MockResponse } from '@/types';
+export * from './reqres.fixture';
+import { TestFixture, MockRoute } from '@/types';
 import { Logger } from '@/utils/logger';
 
 // Manages test fixtures and mock data for consistent test scenarios
 export class FixtureManager {
   private logger: Logger;
   private fixtures: Map<string, TestFixture>;
-  private mockResponses: Map<string, MockResponse>;
+  private mockResponses: Map<string, MockRoute>;
 
   constructor() {
     this.logger = new Logger('FixtureManager');
@@ -42,16 +43,17 @@ export class FixtureManager {
     return matchingFixtures;
   }
 
-  registerMockResponse(endpoint: string, response: MockResponse): void {
+  // Endpoint is "METHOD /path" or "/path"; handlers build the response from the incoming request
+  registerMockResponse(endpoint: string, response: MockRoute): void {
     this.mockResponses.set(endpoint, response);
     this.logger.debug('Registered mock response', {
       endpoint,
-      status: response.status,
-      delay: response.delay
+      status: typeof response === 'function' ? 'dynamic' : response.status,
+      delay: typeof response === 'function' ? undefined : response.delay
     });
   }
 
-  getMockResponse(endpoint: string): MockResponse | undefined {
+  getMockResponse(endpoint: string): MockRoute | undefined {
     return this.mockResponses.get(endpoint);
   }
 
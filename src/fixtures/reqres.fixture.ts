@@ -0,0 +1,181 @@
+import { MockRequest, MockResponse, MockRoute, Resource, User } from '@/types';
+import {
+  mockCreateUserResponse,
+  mockDeleteUserResponse,
+  mockLoginFailureResponse,
+  mockLoginSuccessResponse,
+  mockRegisterFailureResponse,
+  mockRegisterSuccessResponse,
+  mockResourceListResponse,
+  mockResourceNotFoundResponse,
+  mockSingleResourceResponse,
+  mockSingleUserResponse,
+  mockUpdateUserResponse,
+  mockUserListResponse,
+  mockUserNotFoundResponse
+} from './api-responses.fixture';
+
+export const reqresSupport = mockUserListResponse.data.support!;
+
+const jsonHeaders = { 'Content-Type': 'application/json' };
+
+// The data set served by reqres.in, used to answer requests in mock mode
+export const reqresUsers: User[] = [
+  ['george.bluth', 'George', 'Bluth'],
+  ['janet.weaver', 'Janet', 'Weaver'],
+  ['emma.wong', 'Emma', 'Wong'],
+  ['eve.holt', 'Eve', 'Holt'],
+  ['charles.morris', 'Charles', 'Morris'],
+  ['tracey.ramos', 'Tracey', 'Ramos'],
+  ['michael.lawson', 'Michael', 'Lawson'],
+  ['lindsay.ferguson', 'Lindsay', 'Ferguson'],
+  ['tobias.funke', 'Tobias', 'Funke'],
+  ['byron.fields', 'Byron', 'Fields'],
+  ['george.edwards', 'George', 'Edwards'],
+  ['rachel.howell', 'Rachel', 'Howell']
+].map(([handle, firstName, lastName], index) => ({
+  id: index + 1,
+  email: `${handle}@reqres.in`,
+  first_name: firstName,
+  last_name: lastName,
+  avatar: `https://reqres.in/img/faces/${index + 1}-image.jpg`
+}));
+
+export const reqresResources: Resource[] = [
+  ['cerulean', 2000, '#98B2D1', '15-4020'],
+  ['fuchsia rose', 2001, '#C74375', '17-2031'],
+  ['true red', 2002, '#BF1932', '19-1664'],
+  ['aqua sky', 2003, '#7BC4C4', '14-4811'],
+  ['tigerlily', 2004, '#E2583E', '17-1456'],
+  ['blue turquoise', 2005, '#53B0AE', '15-5217'],
+  ['sand dollar', 2006, '#DECDBE', '13-1106'],
+  ['chili pepper', 2007, '#9B1B30', '19-1557'],
+  ['blue iris', 2008, '#5A5B9F', '18-3943'],
+  ['mimosa', 2009, '#F0C05A', '14-0848'],
+  ['turquoise', 2010, '#45B5AA', '15-5519'],
+  ['honeysuckle', 2011, '#D94F70', '18-2120']
+].map(([name, year, color, pantoneValue], index) => ({
+  id: index + 1,
+  name: name as string,
+  year: year as number,
+  color: color as string,
+  pantone_value: pantoneValue as string
+}));
+
+const json = (status: number, data: any, delay?: number): MockResponse => ({
+  status,
+  data,
+  headers: jsonHeaders,
+  delay
+});
+
+// reqres.in accepts ?delay=<seconds> on any request
+const requestDelay = (request: MockRequest): number | undefined => {
+  const seconds = Number(request.query.delay);
+  return seconds > 0 ? seconds * 1000 : undefined;
+};
+
+// Serves a declared api-responses fixture, with data replacing its body when the request shapes the response
+const fromFixture = (fixture: MockResponse, request: MockRequest, data: any = fixture.data): MockResponse => ({
+  ...fixture,
+  data,
+  headers: { ...fixture.headers },
+  delay: requestDelay(request) ?? fixture.delay
+});
+
+const listHandler = <T>(items: T[], fixture: MockResponse) => (request: MockRequest): MockResponse => {
+  const page = Math.max(1, Number(request.query.page) || 1);
+  const perPage = Math.max(1, Number(request.query.per_page) || fixture.data.per_page);
+  const start = (page - 1) * perPage;
+
+  return fromFixture(fixture, request, {
+    ...fixture.data,
+    page,
+    per_page: perPage,
+    total: items.length,
+    total_pages: Math.ceil(items.length / perPage),
+    data: items.slice(start, start + perPage)
+  });
+};
+
+const itemHandler = <T extends { id?: number }>(items: T[], fixture: MockResponse, notFound: MockResponse) =>
+  (request: MockRequest): MockResponse => {
+    const item = items.find(candidate => candidate.id === Number(request.params.id));
+    return item ? fromFixture(fixture, request, { ...fixture.data, data: item }) : fromFixture(notFound, request);
+  };
+
+// Sequential so records created concurrently never share an id
+let lastCreatedId = 100;
+
+const createHandler = (request: MockRequest): MockResponse => fromFixture(mockCreateUserResponse, request, {
+  ...request.body,
+  id: String(++lastCreatedId),
+  createdAt: new Date().toISOString()
+});
+
+const updateHandler = (request: MockRequest): MockResponse => fromFixture(mockUpdateUserResponse, request, {
+  ...request.body,
+  updatedAt: new Date().toISOString()
+});
+
+const deleteHandler = (request: MockRequest): MockResponse => fromFixture(mockDeleteUserResponse, request);
+
+// Mirrors reqres.in: only its own users can log in or register, and both need a password
+const credentialsError = (request: MockRequest, missingPassword: MockResponse): MockResponse | undefined => {
+  if (!request.body?.email && !request.body?.username) {
+    return json(400, { error: 'Missing email or username' });
+  }
+
+  if (!request.body?.password) {
+    return fromFixture(missingPassword, request);
+  }
+
+  return undefined;
+};
+
+const findUserByEmail = (email?: string): User | undefined => {
+  return reqresUsers.find(user => user.email === email);
+};
+
+const loginHandler = (request: MockRequest): MockResponse => {
+  const error = credentialsError(request, mockLoginFailureResponse);
+  if (error) {
+    return error;
+  }
+
+  return findUserByEmail(request.body.email)
+    ? fromFixture(mockLoginSuccessResponse, request)
+    : json(400, { error: 'user not found' });
+};
+
+const registerHandler = (request: MockRequest): MockResponse => {
+  const error = credentialsError(request, mockRegisterFailureResponse);
+  if (error) {
+    return error;
+  }
+
+  const user = findUserByEmail(request.body.email);
+  return user
+    ? fromFixture(mockRegisterSuccessResponse, request, { ...mockRegisterSuccessResponse.data, id: user.id })
+    : json(400, { error: 'Note: Only defined users succeed registration' });
+};
+
+// Default routes served by MockServer, emulating the reqres.in endpoints the clients call.
+// Responses are the api-responses fixtures, with bodies built from the request and the data set above.
+export const reqresMockRoutes: Record<string, MockRoute> = {
+  'GET /api/users': listHandler(reqresUsers, mockUserListResponse),
+  'GET /api/users/:id': itemHandler(reqresUsers, mockSingleUserResponse, mockUserNotFoundResponse),
+  'POST /api/users': createHandler,
+  'PUT /api/users/:id': updateHandler,
+  'PATCH /api/users/:id': updateHandler,
+  'DELETE /api/users/:id': deleteHandler,
+  'GET /api/unknown': listHandler(reqresResources, mockResourceListResponse),
+  'GET /api/unknown/:id': itemHandler(reqresResources, mockSingleResourceResponse, mockResourceNotFoundResponse),
+  'POST /api/unknown': createHandler,
+  'PUT /api/unknown/:id': updateHandler,
+  'PATCH /api/unknown/:id': updateHandler,
+  'DELETE /api/unknown/:id': deleteHandler,
+  'POST /api/login': loginHandler,
+  'POST /api/register': registerHandler,
+  'POST /api/logout': json(200, {})
+};
@@ -0,0 +1,74 @@
+// Generated from openapi/reqres.openapi.json by `npm run openapi:generate`. Do not edit by hand.
+
+import { APIRequestContext } from '@playwright/test';
+import { ApiClientServices, BaseApiClient } from '@/core/base-api-client';
+import { ApiClientConfig, ApiResponse, RequestOptions } from '@/types';
+import {
+  EmptyResponse,
+  LoginRequest,
+  LoginResponse,
+  RegisterRequest,
+  RegisterResponse
+} from './reqres.types';
+import { EmptyResponseSchema, LoginResponseSchema, RegisterResponseSchema } from './reqres.schemas';
+
+// Auth operations from openapi/reqres.openapi.json
+export class AuthApiClient extends BaseApiClient {
+  constructor(config: ApiClientConfig, requestContext?: APIRequestContext, services?: ApiClientServices) {
+    super(config, requestContext, services);
+  }
+
+  // POST /api/register
+  async register(data: RegisterRequest, options?: RequestOptions): Promise<ApiResponse<RegisterResponse>> {
+    this.logger.info('Register one of the predefined users');
+
+    const response = await this.post<RegisterResponse>('/api/register', data, undefined, {
+      responseSchema: RegisterResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('register succeeded', { status: response.status });
+
+    return response;
+  }
+
+  // POST /api/login
+  async login(data: LoginRequest, options?: RequestOptions): Promise<ApiResponse<LoginResponse>> {
+    this.logger.info('Log in and receive a session token');
+
+    const response = await this.post<LoginResponse>('/api/login', data, undefined, {
+      responseSchema: LoginResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('login succeeded', { status: response.status });
+
+    return response;
+  }
+
+  // POST /api/logout
+  async logout(options?: RequestOptions): Promise<ApiResponse<EmptyResponse>> {
+    this.logger.info('End the current session');
+
+    const response = await this.post<EmptyResponse>('/api/logout', undefined, undefined, {
+      responseSchema: EmptyResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('logout succeeded', { status: response.status });
+
+    return response;
+  }
+}
@@ -0,0 +1,7 @@
+// Generated from openapi/reqres.openapi.json by `npm run openapi:generate`. Do not edit by hand.
+
+export * from './reqres.types';
+export * from './reqres.schemas';
+export { UsersApiClient } from './users.client';
+export { ResourcesApiClient } from './resources.client';
+export { AuthApiClient } from './auth.client';
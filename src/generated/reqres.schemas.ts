@@ -0,0 +1,317 @@
+// Generated from openapi/reqres.openapi.json by `npm run openapi:generate`. Do not edit by hand.
+
+import { JsonSchema } from '@/types';
+
+export const SupportSchema: JsonSchema = {
+  title: 'Support',
+  type: 'object',
+  required: ['url', 'text'],
+  properties: { url: { type: 'string', format: 'uri' }, text: { type: 'string' } }
+};
+
+export const UserSchema: JsonSchema = {
+  title: 'User',
+  type: 'object',
+  additionalProperties: false,
+  required: ['id', 'email', 'first_name', 'last_name', 'avatar'],
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    email: { type: 'string', format: 'email' },
+    first_name: { type: 'string' },
+    last_name: { type: 'string' },
+    avatar: { type: 'string', format: 'uri' }
+  }
+};
+
+export const UserListResponseSchema: JsonSchema = {
+  title: 'UserListResponse',
+  type: 'object',
+  required: ['page', 'per_page', 'total', 'total_pages', 'data'],
+  properties: {
+    page: { type: 'integer' },
+    per_page: { type: 'integer' },
+    total: { type: 'integer' },
+    total_pages: { type: 'integer' },
+    data: {
+      type: 'array',
+      items: {
+        title: 'User',
+        type: 'object',
+        additionalProperties: false,
+        required: ['id', 'email', 'first_name', 'last_name', 'avatar'],
+        properties: {
+          id: { type: 'integer', minimum: 1 },
+          email: { type: 'string', format: 'email' },
+          first_name: { type: 'string' },
+          last_name: { type: 'string' },
+          avatar: { type: 'string', format: 'uri' }
+        }
+      }
+    },
+    support: {
+      title: 'Support',
+      type: 'object',
+      required: ['url', 'text'],
+      properties: { url: { type: 'string', format: 'uri' }, text: { type: 'string' } }
+    }
+  }
+};
+
+export const SingleUserResponseSchema: JsonSchema = {
+  title: 'SingleUserResponse',
+  type: 'object',
+  required: ['data', 'support'],
+  properties: {
+    data: {
+      title: 'User',
+      type: 'object',
+      additionalProperties: false,
+      required: ['id', 'email', 'first_name', 'last_name', 'avatar'],
+      properties: {
+        id: { type: 'integer', minimum: 1 },
+        email: { type: 'string', format: 'email' },
+        first_name: { type: 'string' },
+        last_name: { type: 'string' },
+        avatar: { type: 'string', format: 'uri' }
+      }
+    },
+    support: {
+      title: 'Support',
+      type: 'object',
+      required: ['url', 'text'],
+      properties: { url: { type: 'string', format: 'uri' }, text: { type: 'string' } }
+    }
+  }
+};
+
+export const CreateUserRequestSchema: JsonSchema = {
+  title: 'CreateUserRequest',
+  type: 'object',
+  required: ['name', 'job'],
+  properties: { name: { type: 'string' }, job: { type: 'string' } }
+};
+
+export const CreateUserResponseSchema: JsonSchema = {
+  title: 'CreateUserResponse',
+  description: 'reqres.in echoes the request and returns the generated id as a string, unlike User.id',
+  allOf: [
+    {
+      title: 'CreateUserRequest',
+      type: 'object',
+      required: ['name', 'job'],
+      properties: { name: { type: 'string' }, job: { type: 'string' } }
+    },
+    {
+      type: 'object',
+      required: ['id', 'createdAt'],
+      properties: { id: { type: 'string' }, createdAt: { type: 'string', format: 'date-time' } }
+    }
+  ]
+};
+
+export const UpdateUserRequestSchema: JsonSchema = {
+  title: 'UpdateUserRequest',
+  type: 'object',
+  properties: { name: { type: 'string' }, job: { type: 'string' } }
+};
+
+export const UpdateUserResponseSchema: JsonSchema = {
+  title: 'UpdateUserResponse',
+  allOf: [
+    {
+      title: 'UpdateUserRequest',
+      type: 'object',
+      properties: { name: { type: 'string' }, job: { type: 'string' } }
+    },
+    {
+      type: 'object',
+      required: ['updatedAt'],
+      properties: { updatedAt: { type: 'string', format: 'date-time' } }
+    }
+  ]
+};
+
+export const ResourceSchema: JsonSchema = {
+  title: 'Resource',
+  type: 'object',
+  additionalProperties: false,
+  required: ['id', 'name', 'year', 'color', 'pantone_value'],
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    name: { type: 'string' },
+    year: { type: 'integer' },
+    color: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
+    pantone_value: { type: 'string' }
+  }
+};
+
+export const ResourceListResponseSchema: JsonSchema = {
+  title: 'ResourceListResponse',
+  type: 'object',
+  required: ['page', 'per_page', 'total', 'total_pages', 'data'],
+  properties: {
+    page: { type: 'integer' },
+    per_page: { type: 'integer' },
+    total: { type: 'integer' },
+    total_pages: { type: 'integer' },
+    data: {
+      type: 'array',
+      items: {
+        title: 'Resource',
+        type: 'object',
+        additionalProperties: false,
+        required: ['id', 'name', 'year', 'color', 'pantone_value'],
+        properties: {
+          id: { type: 'integer', minimum: 1 },
+          name: { type: 'string' },
+          year: { type: 'integer' },
+          color: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
+          pantone_value: { type: 'string' }
+        }
+      }
+    },
+    support: {
+      title: 'Support',
+      type: 'object',
+      required: ['url', 'text'],
+      properties: { url: { type: 'string', format: 'uri' }, text: { type: 'string' } }
+    }
+  }
+};
+
+export const SingleResourceResponseSchema: JsonSchema = {
+  title: 'SingleResourceResponse',
+  type: 'object',
+  required: ['data', 'support'],
+  properties: {
+    data: {
+      title: 'Resource',
+      type: 'object',
+      additionalProperties: false,
+      required: ['id', 'name', 'year', 'color', 'pantone_value'],
+      properties: {
+        id: { type: 'integer', minimum: 1 },
+        name: { type: 'string' },
+        year: { type: 'integer' },
+        color: { type: 'string', pattern: '^#[0-9A-Fa-f]{6}$' },
+        pantone_value: { type: 'string' }
+      }
+    },
+    support: {
+      title: 'Support',
+      type: 'object',
+      required: ['url', 'text'],
+      properties: { url: { type: 'string', format: 'uri' }, text: { type: 'string' } }
+    }
+  }
+};
+
+export const CreateResourceRequestSchema: JsonSchema = {
+  title: 'CreateResourceRequest',
+  type: 'object',
+  required: ['name', 'year', 'color', 'pantone_value'],
+  properties: {
+    name: { type: 'string' },
+    year: { type: 'integer' },
+    color: { type: 'string' },
+    pantone_value: { type: 'string' }
+  }
+};
+
+export const CreateResourceResponseSchema: JsonSchema = {
+  title: 'CreateResourceResponse',
+  allOf: [
+    {
+      title: 'CreateResourceRequest',
+      type: 'object',
+      required: ['name', 'year', 'color', 'pantone_value'],
+      properties: {
+        name: { type: 'string' },
+        year: { type: 'integer' },
+        color: { type: 'string' },
+        pantone_value: { type: 'string' }
+      }
+    },
+    {
+      type: 'object',
+      required: ['id', 'createdAt'],
+      properties: { id: { type: 'string' }, createdAt: { type: 'string', format: 'date-time' } }
+    }
+  ]
+};
+
+export const UpdateResourceRequestSchema: JsonSchema = {
+  title: 'UpdateResourceRequest',
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    year: { type: 'integer' },
+    color: { type: 'string' },
+    pantone_value: { type: 'string' }
+  }
+};
+
+export const UpdateResourceResponseSchema: JsonSchema = {
+  title: 'UpdateResourceResponse',
+  allOf: [
+    {
+      title: 'UpdateResourceRequest',
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        year: { type: 'integer' },
+        color: { type: 'string' },
+        pantone_value: { type: 'string' }
+      }
+    },
+    {
+      type: 'object',
+      required: ['updatedAt'],
+      properties: { updatedAt: { type: 'string', format: 'date-time' } }
+    }
+  ]
+};
+
+export const LoginRequestSchema: JsonSchema = {
+  title: 'LoginRequest',
+  type: 'object',
+  required: ['email', 'password'],
+  properties: { email: { type: 'string' }, password: { type: 'string' } }
+};
+
+export const LoginResponseSchema: JsonSchema = {
+  title: 'LoginResponse',
+  type: 'object',
+  additionalProperties: false,
+  required: ['token'],
+  properties: { token: { type: 'string' } }
+};
+
+export const RegisterRequestSchema: JsonSchema = {
+  title: 'RegisterRequest',
+  type: 'object',
+  required: ['email', 'password'],
+  properties: { email: { type: 'string' }, password: { type: 'string' } }
+};
+
+export const RegisterResponseSchema: JsonSchema = {
+  title: 'RegisterResponse',
+  type: 'object',
+  additionalProperties: false,
+  required: ['id', 'token'],
+  properties: { id: { type: 'integer' }, token: { type: 'string' } }
+};
+
+export const ErrorResponseSchema: JsonSchema = {
+  title: 'ErrorResponse',
+  type: 'object',
+  required: ['error'],
+  properties: { error: { type: 'string' } }
+};
+
+export const EmptyResponseSchema: JsonSchema = {
+  title: 'EmptyResponse',
+  type: 'object',
+  additionalProperties: false,
+  properties: {}
+};
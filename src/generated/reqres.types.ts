@@ -0,0 +1,132 @@
+// Generated from openapi/reqres.openapi.json by `npm run openapi:generate`. Do not edit by hand.
+
+export interface Support {
+  url: string; // uri
+  text: string;
+}
+
+export interface User {
+  id: number;
+  email: string; // email
+  first_name: string;
+  last_name: string;
+  avatar: string; // uri
+}
+
+export interface UserListResponse {
+  page: number;
+  per_page: number;
+  total: number;
+  total_pages: number;
+  data: User[];
+  support?: Support;
+}
+
+export interface SingleUserResponse {
+  data: User;
+  support: Support;
+}
+
+export interface CreateUserRequest {
+  name: string;
+  job: string;
+}
+
+// reqres.in echoes the request and returns the generated id as a string, unlike User.id
+export interface CreateUserResponse extends CreateUserRequest {
+  id: string;
+  createdAt: string; // date-time
+}
+
+export interface UpdateUserRequest {
+  name?: string;
+  job?: string;
+}
+
+export interface UpdateUserResponse extends UpdateUserRequest {
+  updatedAt: string; // date-time
+}
+
+export interface Resource {
+  id: number;
+  name: string;
+  year: number;
+  color: string;
+  pantone_value: string;
+}
+
+export interface ResourceListResponse {
+  page: number;
+  per_page: number;
+  total: number;
+  total_pages: number;
+  data: Resource[];
+  support?: Support;
+}
+
+export interface SingleResourceResponse {
+  data: Resource;
+  support: Support;
+}
+
+export interface CreateResourceRequest {
+  name: string;
+  year: number;
+  color: string;
+  pantone_value: string;
+}
+
+export interface CreateResourceResponse extends CreateResourceRequest {
+  id: string;
+  createdAt: string; // date-time
+}
+
+export interface UpdateResourceRequest {
+  name?: string;
+  year?: number;
+  color?: string;
+  pantone_value?: string;
+}
+
+export interface UpdateResourceResponse extends UpdateResourceRequest {
+  updatedAt: string; // date-time
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  token: string;
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+}
+
+export interface RegisterResponse {
+  id: number;
+  token: string;
+}
+
+export interface ErrorResponse {
+  error: string;
+}
+
+export type EmptyResponse = Record<string, never>;
+
+// Query parameters of listUsers
+export interface ListUsersParams {
+  page?: number; // Page number, starting at 1
+  per_page?: number; // Items per page
+  delay?: number; // Seconds the server waits before responding
+}
+
+// Query parameters of listResources
+export interface ListResourcesParams {
+  page?: number; // Page number, starting at 1
+  per_page?: number; // Items per page
+  delay?: number; // Seconds the server waits before responding
+}
@@ -0,0 +1,132 @@
+// Generated from openapi/reqres.openapi.json by `npm run openapi:generate`. Do not edit by hand.
+
+import { APIRequestContext } from '@playwright/test';
+import { ApiClientServices, BaseApiClient } from '@/core/base-api-client';
+import { ApiClientConfig, ApiResponse, RequestOptions } from '@/types';
+import {
+  CreateResourceRequest,
+  CreateResourceResponse,
+  ListResourcesParams,
+  ResourceListResponse,
+  SingleResourceResponse,
+  UpdateResourceRequest,
+  UpdateResourceResponse
+} from './reqres.types';
+import {
+  CreateResourceResponseSchema,
+  ResourceListResponseSchema,
+  SingleResourceResponseSchema,
+  UpdateResourceResponseSchema
+} from './reqres.schemas';
+
+// Resources operations from openapi/reqres.openapi.json
+export class ResourcesApiClient extends BaseApiClient {
+  constructor(config: ApiClientConfig, requestContext?: APIRequestContext, services?: ApiClientServices) {
+    super(config, requestContext, services);
+  }
+
+  // GET /api/unknown
+  async listResources(params?: ListResourcesParams, options?: RequestOptions): Promise<ApiResponse<ResourceListResponse>> {
+    this.logger.info('List resources page by page', { params });
+
+    const response = await this.get<ResourceListResponse>('/api/unknown', params, undefined, {
+      responseSchema: ResourceListResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('listResources succeeded', { params, status: response.status });
+
+    return response;
+  }
+
+  // POST /api/unknown
+  async createResource(data: CreateResourceRequest, options?: RequestOptions): Promise<ApiResponse<CreateResourceResponse>> {
+    this.logger.info('Create a resource');
+
+    const response = await this.post<CreateResourceResponse>('/api/unknown', data, undefined, {
+      responseSchema: CreateResourceResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('createResource succeeded', { status: response.status });
+
+    return response;
+  }
+
+  // GET /api/unknown/{id}
+  async getResource(id: number, options?: RequestOptions): Promise<ApiResponse<SingleResourceResponse>> {
+    this.logger.info('Get a resource by id', { id });
+
+    const response = await this.get<SingleResourceResponse>(`/api/unknown/${id}`, undefined, undefined, {
+      responseSchema: SingleResourceResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('getResource succeeded', { id, status: response.status });
+
+    return response;
+  }
+
+  // PUT /api/unknown/{id}
+  async updateResource(id: number, data: UpdateResourceRequest, options?: RequestOptions): Promise<ApiResponse<UpdateResourceResponse>> {
+    this.logger.info('Replace a resource', { id });
+
+    const response = await this.put<UpdateResourceResponse>(`/api/unknown/${id}`, data, undefined, {
+      responseSchema: UpdateResourceResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('updateResource succeeded', { id, status: response.status });
+
+    return response;
+  }
+
+  // PATCH /api/unknown/{id}
+  async patchResource(id: number, data: UpdateResourceRequest, options?: RequestOptions): Promise<ApiResponse<UpdateResourceResponse>> {
+    this.logger.info('Update some fields of a resource', { id });
+
+    const response = await this.patch<UpdateResourceResponse>(`/api/unknown/${id}`, data, undefined, {
+      responseSchema: UpdateResourceResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('patchResource succeeded', { id, status: response.status });
+
+    return response;
+  }
+
+  // DELETE /api/unknown/{id}
+  async deleteResource(id: number, options?: RequestOptions): Promise<ApiResponse<void>> {
+    this.logger.info('Delete a resource', { id });
+
+    const response = await this.delete<void>(`/api/unknown/${id}`, undefined, options);
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('deleteResource succeeded', { id, status: response.status });
+
+    return response;
+  }
+}
@@ -0,0 +1,132 @@
+// Generated from openapi/reqres.openapi.json by `npm run openapi:generate`. Do not edit by hand.
+
+import { APIRequestContext } from '@playwright/test';
+import { ApiClientServices, BaseApiClient } from '@/core/base-api-client';
+import { ApiClientConfig, ApiResponse, RequestOptions } from '@/types';
+import {
+  CreateUserRequest,
+  CreateUserResponse,
+  ListUsersParams,
+  SingleUserResponse,
+  UpdateUserRequest,
+  UpdateUserResponse,
+  UserListResponse
+} from './reqres.types';
+import {
+  CreateUserResponseSchema,
+  SingleUserResponseSchema,
+  UpdateUserResponseSchema,
+  UserListResponseSchema
+} from './reqres.schemas';
+
+// Users operations from openapi/reqres.openapi.json
+export class UsersApiClient extends BaseApiClient {
+  constructor(config: ApiClientConfig, requestContext?: APIRequestContext, services?: ApiClientServices) {
+    super(config, requestContext, services);
+  }
+
+  // GET /api/users
+  async listUsers(params?: ListUsersParams, options?: RequestOptions): Promise<ApiResponse<UserListResponse>> {
+    this.logger.info('List users page by page', { params });
+
+    const response = await this.get<UserListResponse>('/api/users', params, undefined, {
+      responseSchema: UserListResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('listUsers succeeded', { params, status: response.status });
+
+    return response;
+  }
+
+  // POST /api/users
+  async createUser(data: CreateUserRequest, options?: RequestOptions): Promise<ApiResponse<CreateUserResponse>> {
+    this.logger.info('Create a user');
+
+    const response = await this.post<CreateUserResponse>('/api/users', data, undefined, {
+      responseSchema: CreateUserResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('createUser succeeded', { status: response.status });
+
+    return response;
+  }
+
+  // GET /api/users/{id}
+  async getUser(id: number, options?: RequestOptions): Promise<ApiResponse<SingleUserResponse>> {
+    this.logger.info('Get a user by id', { id });
+
+    const response = await this.get<SingleUserResponse>(`/api/users/${id}`, undefined, undefined, {
+      responseSchema: SingleUserResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('getUser succeeded', { id, status: response.status });
+
+    return response;
+  }
+
+  // PUT /api/users/{id}
+  async updateUser(id: number, data: UpdateUserRequest, options?: RequestOptions): Promise<ApiResponse<UpdateUserResponse>> {
+    this.logger.info('Replace a user', { id });
+
+    const response = await this.put<UpdateUserResponse>(`/api/users/${id}`, data, undefined, {
+      responseSchema: UpdateUserResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('updateUser succeeded', { id, status: response.status });
+
+    return response;
+  }
+
+  // PATCH /api/users/{id}
+  async patchUser(id: number, data: UpdateUserRequest, options?: RequestOptions): Promise<ApiResponse<UpdateUserResponse>> {
+    this.logger.info('Update some fields of a user', { id });
+
+    const response = await this.patch<UpdateUserResponse>(`/api/users/${id}`, data, undefined, {
+      responseSchema: UpdateUserResponseSchema,
+      ...options
+    });
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('patchUser succeeded', { id, status: response.status });
+
+    return response;
+  }
+
+  // DELETE /api/users/{id}
+  async deleteUser(id: number, options?: RequestOptions): Promise<ApiResponse<void>> {
+    this.logger.info('Delete a user', { id });
+
+    const response = await this.delete<void>(`/api/users/${id}`, undefined, options);
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('deleteUser succeeded', { id, status: response.status });
+
+    return response;
+  }
+}
@@ -1,2 +1,3 @@
 export * from './test.helpers';
 export { TestSetupHelper, ApiResponseValidator, PerformanceTestHelper } from './test.helpers';
+export * from './pagination-checker';
@@ -0,0 +1,204 @@
+import { isApiError } from '@/clients';
+import { Logger } from '@/utils/logger';
+import { ApiResponse, PaginatedResponse, PaginationParams } from '@/types';
+
+export type PaginationCheck = 'status' | 'metadata' | 'page-size' | 'total' | 'duplicate-id' | 'missing-id' | 'out-of-range';
+
+export interface PaginationIssue {
+  check: PaginationCheck;
+  page?: number;
+  message: string;
+}
+
+export interface PaginationCheckOptions {
+  perPage?: number; // sent as per_page and expected back; otherwise the first page's per_page is expected on every page
+  expectedIds?: number[]; // reported individually when missing; otherwise only the shortfall against total is
+  // How a page past total_pages is answered: 'empty' is reqres.in's 200 with the requested page, the same totals and no data
+  outOfRange?: 'empty' | 'error';
+  maxPages?: number; // stops a runaway walk when total_pages is wrong; 100 by default
+}
+
+export interface PaginationReport {
+  valid: boolean;
+  pages: number; // in-range pages fetched
+  items: number;
+  total?: number;
+  perPage?: number;
+  totalPages?: number;
+  issues: PaginationIssue[];
+}
+
+type PageFetcher<T> = (params: PaginationParams) => Promise<ApiResponse<PaginatedResponse<T>>>;
+
+// Walks every page of a list endpoint and checks its BaseApiResponse metadata against the items it returns
+export class PaginationChecker {
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger('PaginationChecker');
+  }
+
+  // fetchPage is any list method, e.g. params => userClient.getUsers(params)
+  async check<T extends { id?: number }>(fetchPage: PageFetcher<T>, options: PaginationCheckOptions = {}): Promise<PaginationReport> {
+    const { perPage, expectedIds, outOfRange = 'empty', maxPages = 100 } = options;
+    const issues: PaginationIssue[] = [];
+    const seen = new Map<number, number>(); // id -> first page it appeared on
+    const load = (page: number) => fetchPage(perPage === undefined ? { page } : { page, per_page: perPage });
+
+    const first = await load(1);
+    const { total, per_page: expectedPerPage = perPage, total_pages: totalPages } = first.data;
+    const metadataIssue = this.checkMetadata(first, 1, perPage);
+    if (metadataIssue) {
+      issues.push(metadataIssue);
+      return this.report(issues, 1, first.data.data?.length || 0, first.data);
+    }
+
+    if (totalPages !== Math.ceil(total! / expectedPerPage!)) {
+      issues.push({
+        check: 'metadata',
+        message: `total_pages is ${totalPages}, but ${total} items at ${expectedPerPage} per page need ${Math.ceil(total! / expectedPerPage!)}`
+      });
+    }
+
+    let items = 0;
+    const lastPage = Math.min(Math.max(totalPages!, 1), maxPages);
+    for (let page = 1; page <= lastPage; page++) {
+      const response = page === 1 ? first : await load(page);
+      const pageIssue = this.checkMetadata(response, page, expectedPerPage);
+      if (pageIssue) {
+        issues.push(pageIssue);
+        continue;
+      }
+
+      const { data } = response.data;
+      if (response.data.total !== total || response.data.total_pages !== totalPages) {
+        issues.push({
+          check: 'metadata',
+          page,
+          message: `total/total_pages changed from ${total}/${totalPages} to ${response.data.total}/${response.data.total_pages}`
+        });
+      }
+
+      // Capped at per_page: a total that overflows total_pages is reported by the metadata and total checks
+      const expectedSize = page < totalPages!
+        ? expectedPerPage!
+        : Math.min(Math.max(total! - (lastPage - 1) * expectedPerPage!, 0), expectedPerPage!);
+      if (data.length !== expectedSize) {
+        issues.push({ check: 'page-size', page, message: `Expected ${expectedSize} item(s), got ${data.length}` });
+      }
+
+      items += data.length;
+      data.forEach(item => {
+        if (item.id === undefined) {
+          return;
+        }
+        const firstSeen = seen.get(item.id);
+        if (firstSeen !== undefined) {
+          issues.push({ check: 'duplicate-id', page, message: `id ${item.id} already returned on page ${firstSeen}` });
+        } else {
+          seen.set(item.id, page);
+        }
+      });
+    }
+
+    if (totalPages! > maxPages) {
+      issues.push({ check: 'total', message: `Stopped after maxPages (${maxPages}) of ${totalPages} pages` });
+    } else if (items !== total) {
+      issues.push({ check: 'total', message: `total is ${total}, but the pages returned ${items} item(s)` });
+    }
+
+    if (expectedIds) {
+      const missing = expectedIds.filter(id => !seen.has(id));
+      if (missing.length > 0) {
+        issues.push({ check: 'missing-id', message: `id(s) ${missing.join(', ')} were not returned on any page` });
+      }
+    } else if (seen.size > 0 && seen.size < total!) {
+      issues.push({ check: 'missing-id', message: `${total! - seen.size} of ${total} id(s) were not returned on any page` });
+    }
+
+    const outOfRangeIssue = await this.checkOutOfRange(load, Math.max(totalPages!, 1) + 1, outOfRange, first.data);
+    if (outOfRangeIssue) {
+      issues.push(outOfRangeIssue);
+    }
+
+    return this.report(issues, lastPage, items, first.data);
+  }
+
+  static formatIssues(issues: PaginationIssue[]): string {
+    return issues
+      .map(issue => `  ${issue.check}${issue.page !== undefined ? ` (page ${issue.page})` : ''}: ${issue.message}`)
+      .join('\n');
+  }
+
+  private checkMetadata(response: ApiResponse<PaginatedResponse<any>>, page: number, perPage?: number): PaginationIssue | undefined {
+    if (response.status !== 200) {
+      return { check: 'status', page, message: `Expected status 200, got ${response.status}` };
+    }
+
+    const body = response.data;
+    const missing = (['page', 'per_page', 'total', 'total_pages'] as const).filter(field => typeof body?.[field] !== 'number');
+    if (missing.length > 0 || !Array.isArray(body.data)) {
+      return { check: 'metadata', page, message: `Missing ${[...missing, ...(Array.isArray(body?.data) ? [] : ['data'])].join(', ')}` };
+    }
+
+    if (body.page !== page) {
+      return { check: 'metadata', page, message: `Requested page ${page}, response says page ${body.page}` };
+    }
+    if (perPage !== undefined && body.per_page !== perPage) {
+      return { check: 'metadata', page, message: `Expected per_page ${perPage}, got ${body.per_page}` };
+    }
+    return undefined;
+  }
+
+  private async checkOutOfRange<T>(
+    load: (page: number) => Promise<ApiResponse<PaginatedResponse<T>>>,
+    page: number,
+    expected: 'empty' | 'error',
+    first: PaginatedResponse<T>
+  ): Promise<PaginationIssue | undefined> {
+    let response: ApiResponse<PaginatedResponse<T>>;
+    try {
+      response = await load(page);
+    } catch (error) {
+      if (expected === 'error' && isApiError(error) && error.status >= 400 && error.status < 500) {
+        return undefined;
+      }
+      return { check: 'out-of-range', page, message: `Request failed: ${(error as Error).message}` };
+    }
+
+    if (expected === 'error') {
+      return response.status >= 400 && response.status < 500
+        ? undefined
+        : { check: 'out-of-range', page, message: `Expected a 4xx status, got ${response.status}` };
+    }
+
+    const body = response.data;
+    if (response.status !== 200 || body?.page !== page || !Array.isArray(body.data) || body.data.length > 0) {
+      return {
+        check: 'out-of-range',
+        page,
+        message: `Expected status 200 with page ${page} and no data, got status ${response.status} with ${body?.data?.length ?? 'no'} item(s)`
+      };
+    }
+    if (body.total !== first.total || body.total_pages !== first.total_pages) {
+      return { check: 'out-of-range', page, message: `total/total_pages changed to ${body.total}/${body.total_pages}` };
+    }
+    return undefined;
+  }
+
+  private report(issues: PaginationIssue[], pages: number, items: number, first: PaginatedResponse<unknown>): PaginationReport {
+    if (issues.length > 0) {
+      this.logger.error(`Pagination check failed\n${PaginationChecker.formatIssues(issues)}`, { issues });
+    }
+
+    return {
+      valid: issues.length === 0,
+      pages,
+      items,
+      total: first.total,
+      perPage: first.per_page,
+      totalPages: first.total_pages,
+      issues
+    };
+  }
+}
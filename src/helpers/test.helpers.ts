@@ -1,31 +1,170 @@
 import { test as base } from '@playwright/test';
-import { ApiClientFactory } from '@/clients';
+import * as fs from 'fs';
+import {
+  ApiClientFactory,
+  ApiError,
+  CIRCUIT_BREAKERS_ATTACHMENT,
+  CacheHeaderExpectations,
+  CircuitBreakerRegistry,
+  HAR_ATTACHMENT,
+  HarRecorder,
+  MockServer,
+  REQUEST_RECORDS_ATTACHMENT,
+  RequestRecorder,
+  ResourceClient,
+  ResponseCache,
+  circuitBreakerRegistry,
+  harRecorder,
+  isApiError,
+  requestRecorder
+} from '@/clients';
 import { TestDataManager } from '@/data';
 import { Logger } from '@/utils/logger';
-import { TestContext, CleanupTask } from '@/types';
+import { TEST_LOGS_ATTACHMENT, correlationContext } from '@/utils/correlation';
+import { RetryPolicy } from '@/utils/retry-policy';
+import { SchemaValidator } from '@/utils/schema-validator';
+import { OPENAPI_CONFORMANCE_ATTACHMENT } from '@/openapi/contract-checker';
+import { loginResponseSchema, paginationSchema, resourceSchema, userSchema } from '@/schemas';
+import {
+  TestContext,
+  CleanupTask,
+  LoginRequest,
+  ApiResponse,
+  RequestTiming,
+  JsonSchema,
+  SchemaValidationResult
+} from '@/types';
 
 export interface ExtendedTestContext {
   apiClients: {
     userClient: any;
     authClient: any;
-    resourceClient: any;
+    resourceClient: ResourceClient;
   };
   dataManager: TestDataManager;
   logger: Logger;
   testContext: TestContext;
+  // Set with test.use({ runAs: credentials }) to run the test's clients as an authenticated user
+  runAs: LoginRequest | undefined;
+  // Set with test.use({ mockApi: true }) to answer requests from MockServer; defaults to API_MOCK
+  mockApi: boolean | undefined;
+  mockServer: MockServer | undefined;
+  requestRecorder: RequestRecorder;
+  harRecorder: HarRecorder;
+  // Prefix of every request ID sent during the test, and stamped on each of its log lines
+  correlationId: string;
+  // Worker-wide breakers used by factories created with circuitBreaker.sharing 'worker'
+  circuitBreakers: CircuitBreakerRegistry;
 }
 
 // Enhanced test fixture with API testing capabilities
 export const test = base.extend<ExtendedTestContext>({
-  apiClients: async ({ request }, use) => {
-    const factory = new ApiClientFactory(request);
-    const clients = {
-      ...factory.createAllClients(),
-      resourceClient: {}
-    };
-    const logger = new Logger('ApiClients');
-    logger.info('API clients initialized');
+  runAs: [undefined, { option: true }],
+
+  mockApi: [undefined, { option: true }],
+
+  // Declared before the other auto fixtures so their setup and teardown lines carry the test ID too
+  correlationId: [async ({ logger }, use, testInfo) => {
+    const testId = `test_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    correlationContext.startTest(testId);
+    logger.debug('Correlation started', { title: testInfo.title, retry: testInfo.retry });
+
+    await use(testId);
+
+    const lines = correlationContext.endTest();
+    if (testInfo.status !== testInfo.expectedStatus && lines.length > 0) {
+      await testInfo.attach(TEST_LOGS_ATTACHMENT, { body: lines.join('\n'), contentType: 'text/plain' });
+    }
+  }, { auto: true }],
+
+  // Hands every call made during the test to CustomApiTestReporter, whichever factory sent it
+  requestRecorder: [async ({ logger }, use, testInfo) => {
+    requestRecorder.reset();
+    await use(requestRecorder);
+
+    const records = requestRecorder.drain();
+    logger.debug('API calls recorded', { count: records.length });
+    if (records.length > 0) {
+      await testInfo.attach(REQUEST_RECORDS_ATTACHMENT, {
+        body: JSON.stringify(records),
+        contentType: 'application/json'
+      });
+    }
+  }, { auto: true }],
+
+  // Saves the test's traffic as a HAR file when recordHar is on; the reporter links it from api-test-report.html
+  harRecorder: [async ({ logger }, use, testInfo) => {
+    harRecorder.reset();
+    await use(harRecorder);
+
+    const har = harRecorder.drain();
+    if (har.log.entries.length > 0) {
+      const harPath = testInfo.outputPath(HAR_ATTACHMENT);
+      fs.writeFileSync(harPath, JSON.stringify(har, null, 2));
+      await testInfo.attach(HAR_ATTACHMENT, { path: harPath, contentType: 'application/json' });
+      logger.debug('HAR file written', { path: harPath, entries: har.log.entries.length });
+    }
+  }, { auto: true }],
+
+  // Breaker state outlives the test, so the reporter keeps only the latest snapshot of each breaker
+  circuitBreakers: [async ({ logger }, use, testInfo) => {
+    await use(circuitBreakerRegistry);
+
+    const snapshots = circuitBreakerRegistry.getSnapshots();
+    if (snapshots.length > 0) {
+      logger.debug('Worker circuit breakers', circuitBreakerRegistry.getAggregateMetrics());
+      await testInfo.attach(CIRCUIT_BREAKERS_ATTACHMENT, {
+        body: JSON.stringify(snapshots),
+        contentType: 'application/json'
+      });
+    }
+  }, { auto: true }],
+
+  apiClients: async ({ request, runAs, mockApi, logger: testLogger }, use, testInfo) => {
+    const factory = new ApiClientFactory(request, mockApi === undefined ? undefined : { mock: mockApi });
+    const clients = factory.createAllClients();
+    const logger = testLogger.child('ApiClients');
+
+    if (runAs) {
+      await factory.authenticateAs(runAs);
+      logger.info('API clients initialized', { runAs: runAs.email });
+    } else {
+      logger.info('API clients initialized');
+    }
+
     await use(clients);
+
+    // Unmatched requests mean a spec relies on a route the mock server does not know
+    const unmatched = factory.getMockServer()?.getUnmatchedRequests() || [];
+    if (unmatched.length > 0) {
+      logger.warn('Requests without a registered mock response', {
+        requests: unmatched.map(({ method, url }) => `${method} ${url}`)
+      });
+      unmatched.forEach(({ method, url }) => {
+        testInfo.annotations.push({ type: 'unmatched-mock', description: `${method} ${url}` });
+      });
+    }
+
+    const breakers = factory.getCircuitBreakerRegistry();
+    if (breakers !== circuitBreakerRegistry && breakers.keys().length > 0) {
+      await testInfo.attach(CIRCUIT_BREAKERS_ATTACHMENT, {
+        body: JSON.stringify(breakers.getSnapshots()),
+        contentType: 'application/json'
+      });
+    }
+
+    // CustomApiTestReporter merges these into the run's per-operation conformance report
+    const conformance = factory.getContractChecker()?.getReport() || [];
+    if (conformance.length > 0) {
+      await testInfo.attach(OPENAPI_CONFORMANCE_ATTACHMENT, {
+        body: JSON.stringify(conformance),
+        contentType: 'application/json'
+      });
+    }
+  },
+
+  mockServer: async ({ apiClients }, use) => {
+    await use(apiClients.userClient.getMockServer());
   },
 
   dataManager: async ({}, use) => {
@@ -39,9 +178,9 @@ export const test = base.extend<ExtendedTestContext>({
     await use(logger);
   },
 
-  testContext: async ({ logger }, use) => {
+  testContext: async ({ logger, correlationId }, use) => {
     const context: TestContext = {
-      testId: `test_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      testId: correlationId,
       environment: process.env.NODE_ENV || 'development',
       startTime: new Date(),
       userData: new Map(),
@@ -138,6 +277,13 @@ export class TestSetupHelper {
     baseDelayMs: number = 1000
   ): Promise<T> {
     let lastError: Error;
+    const retryPolicy = new RetryPolicy({
+      maxRetries,
+      baseDelay: baseDelayMs,
+      maxDelay: Number.MAX_SAFE_INTEGER,
+      backoff: 'exponential',
+      jitter: 'none'
+    });
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
@@ -146,7 +292,7 @@ export class TestSetupHelper {
         lastError = error as Error;
 
         if (attempt < maxRetries) {
-          const delay = baseDelayMs * Math.pow(2, attempt);
+          const delay = retryPolicy.getDelay(attempt);
           this.logger.warn(`Operation failed, retrying in ${delay}ms`, {
             attempt: attempt + 1,
             maxRetries: maxRetries + 1,
@@ -197,37 +343,48 @@ export class TestSetupHelper {
 // Validates API response structure and content
 export class ApiResponseValidator {
   private logger: Logger;
+  private schemaValidator: SchemaValidator;
 
   constructor() {
     this.logger = new Logger('ApiResponseValidator');
+    this.schemaValidator = new SchemaValidator();
   }
 
   validateUserResponse(response: any): boolean {
-    const requiredFields = ['id', 'email', 'first_name', 'last_name', 'avatar'];
-    return this.validateFields(response, requiredFields);
+    return this.validateSchema(response, userSchema).valid;
   }
 
   validateResourceResponse(response: any): boolean {
-    const requiredFields = ['id', 'name', 'year', 'color', 'pantone_value'];
-    return this.validateFields(response, requiredFields);
+    return this.validateSchema(response, resourceSchema).valid;
   }
 
   validatePaginationResponse(response: any): boolean {
-    const requiredFields = ['page', 'per_page', 'total', 'total_pages', 'data'];
-    return this.validateFields(response, requiredFields);
+    return this.validateSchema(response, paginationSchema).valid;
   }
 
   validateAuthResponse(response: any): boolean {
-    const requiredFields = ['token'];
-    return this.validateFields(response, requiredFields);
+    return this.validateSchema(response, loginResponseSchema).valid;
   }
 
-  private validateFields(obj: any, requiredFields: string[]): boolean {
-    for (const field of requiredFields) {
-      if (!(field in obj)) {
-        this.logger.error(`Missing required field: ${field}`, { obj });
-        return false;
-      }
+  // Reports every mismatch with its path; pass a schema from '@/schemas' or a client's responseSchema
+  validateSchema(data: unknown, schema: JsonSchema): SchemaValidationResult {
+    const result = this.schemaValidator.validate(data, schema);
+
+    if (!result.valid) {
+      this.logger.error(`Schema mismatch for ${schema.title || 'response'}\n${SchemaValidator.formatIssues(result.issues)}`, {
+        issues: result.issues
+      });
+    }
+    return result;
+  }
+
+  // Checks ETag, Last-Modified and Cache-Control are well formed, plus any expectations such as { etag: true, cacheable: true }
+  validateCacheHeaders(response: ApiResponse, expectations?: CacheHeaderExpectations): boolean {
+    const issues = ResponseCache.checkHeaders(response.headers, expectations);
+
+    if (issues.length > 0) {
+      this.logger.error(`Cache header problems for ${response.config.method} ${response.config.url}`, { issues });
+      return false;
     }
     return true;
   }
@@ -240,7 +397,17 @@ export class ApiResponseValidator {
     return true;
   }
 
-  validateResponseTime(duration: number, maxDuration: number): boolean {
+  // Accepts a response or ApiError to check the recorded HTTP call time rather than a wall-clock wrapper
+  validateResponseTime(durationOrResponse: number | ApiResponse | ApiError, maxDuration: number): boolean {
+    const duration = typeof durationOrResponse === 'number'
+      ? durationOrResponse
+      : durationOrResponse.timing?.duration;
+
+    if (duration === undefined) {
+      this.logger.warn('No timing recorded for response', { maxDuration });
+      return false;
+    }
+
     if (duration > maxDuration) {
       this.logger.warn(`Response time exceeded threshold`, { duration, maxDuration });
       return false;
@@ -257,24 +424,32 @@ export class PerformanceTestHelper {
     this.logger = new Logger('PerformanceTestHelper');
   }
 
+  // Reports the HTTP call's own duration when the operation returns an ApiResponse, wall time otherwise
   async measurePerformance<T>(
     operation: () => Promise<T>,
     operationName: string
-  ): Promise<{ result: T; duration: number }> {
+  ): Promise<{ result: T; duration: number; timing?: RequestTiming }> {
     const startTime = Date.now();
 
     try {
       const result = await operation();
-      const duration = Date.now() - startTime;
+      const timing = (result as ApiResponse | undefined)?.timing;
+      const duration = timing ? timing.duration : Date.now() - startTime;
 
-      this.logger.logPerformance(operationName, duration);
+      this.logger.logPerformance(operationName, duration, timing && {
+        totalDuration: timing.total,
+        retries: timing.retries,
+        size: timing.size
+      });
 
-      return { result, duration };
+      return { result, duration, timing };
     } catch (error) {
-      const duration = Date.now() - startTime;
+      const timing = isApiError(error) ? error.timing : undefined;
+      const duration = timing ? timing.duration : Date.now() - startTime;
       this.logger.error(`Operation failed after ${duration}ms`, {
         operation: operationName,
-        error: (error as Error).message
+        error: (error as Error).message,
+        retries: timing?.retries
       });
       throw error;
     }
@@ -301,15 +476,15 @@ export class PerformanceTestHelper {
       const promises = Array.from({ length: batchSize }, async () => {
         const opStartTime = Date.now();
         try {
-          await operation();
+          const result = await operation();
           return {
             success: true,
-            duration: Date.now() - opStartTime
+            duration: result?.timing?.duration ?? Date.now() - opStartTime
           };
         } catch (error) {
           return {
             success: false,
-            duration: Date.now() - opStartTime,
+            duration: isApiError(error) && error.timing ? error.timing.duration : Date.now() - opStartTime,
             error: (error as Error).message
           };
         }
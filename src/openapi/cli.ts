@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { OpenApiCodeGenerator } from './code-generator';
+import { DEFAULT_OPENAPI_PATH, loadOpenApiDocument } from './openapi-document';
+import { DEFAULT_TYPES_PATH, OpenApiTypeChecker } from './type-checker';
+
+// Compiled and run by `npm run openapi:generate` / `npm run openapi:check`, so imports stay relative
+export const DEFAULT_OUTPUT_DIR = 'src/generated';
+
+const option = (args: string[], name: string, fallback: string): string => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+// Generated files whose content on disk differs from what the spec produces
+export const findStaleFiles = (generator: OpenApiCodeGenerator, outputDir: string): string[] => {
+  return generator.generate()
+    .filter(file => {
+      const target = path.join(outputDir, file.fileName);
+      return !fs.existsSync(target) || fs.readFileSync(target, 'utf-8') !== file.content;
+    })
+    .map(file => path.join(outputDir, file.fileName));
+};
+
+const run = (args: string[]): number => {
+  const [command] = args;
+  const specPath = option(args, 'spec', DEFAULT_OPENAPI_PATH);
+  const outputDir = option(args, 'out', DEFAULT_OUTPUT_DIR);
+  const typesPath = option(args, 'types', DEFAULT_TYPES_PATH);
+
+  const document = loadOpenApiDocument(specPath);
+  const generator = new OpenApiCodeGenerator(document, specPath);
+
+  if (command === 'generate') {
+    fs.mkdirSync(outputDir, { recursive: true });
+    for (const file of generator.generate()) {
+      fs.writeFileSync(path.join(outputDir, file.fileName), file.content);
+      console.log(`wrote ${path.join(outputDir, file.fileName)}`);
+    }
+    return 0;
+  }
+
+  if (command === 'check') {
+    const stale = findStaleFiles(generator, outputDir);
+    const drifts = new OpenApiTypeChecker(document, typesPath).check();
+
+    stale.forEach(file => console.log(`error    ${file}: out of date, run npm run openapi:generate`));
+    drifts.forEach(drift => console.log(`${drift.severity.padEnd(8)} ${drift.path}: ${drift.message}`));
+
+    const errors = stale.length + drifts.filter(drift => drift.severity === 'error').length;
+    console.log(`${errors} error(s), ${drifts.length + stale.length - errors} warning(s) against ${specPath}`);
+    return errors > 0 ? 1 : 0;
+  }
+
+  console.error('Usage: cli.js <generate|check> [--spec file] [--out dir] [--types file]');
+  return 2;
+};
+
+if (require.main === module) {
+  process.exitCode = run(process.argv.slice(2));
+}
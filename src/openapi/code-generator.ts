@@ -0,0 +1,341 @@
+import {
+  OpenApiDocument,
+  OpenApiParameter,
+  OpenApiSchema,
+  ResolvedOperation
+} from './openapi.types';
+import { dereference, listOperations, refName, successResponse } from './openapi-document';
+
+export interface GeneratedFile {
+  fileName: string; // relative to the output directory
+  content: string;
+}
+
+const TYPES_MODULE = 'reqres.types';
+const SCHEMAS_MODULE = 'reqres.schemas';
+
+const pascalCase = (value: string): string => value.replace(/(^|[^A-Za-z0-9]+)([A-Za-z0-9])/g, (_match, _separator, char) => char.toUpperCase());
+
+const isIdentifier = (value: string): boolean => /^[A-Za-z_$][\w$]*$/.test(value);
+
+// Emits request/response interfaces, response schemas and one BaseApiClient subclass per tag
+export class OpenApiCodeGenerator {
+  private document: OpenApiDocument;
+  private source: string;
+
+  constructor(document: OpenApiDocument, source: string = 'openapi/reqres.openapi.json') {
+    this.document = document;
+    this.source = source;
+  }
+
+  generate(): GeneratedFile[] {
+    const operations = listOperations(this.document);
+    const tags = Array.from(new Set(operations.map(operation => operation.tag)));
+
+    return [
+      { fileName: `${TYPES_MODULE}.ts`, content: this.generateTypes(operations) },
+      { fileName: `${SCHEMAS_MODULE}.ts`, content: this.generateSchemas() },
+      ...tags.map(tag => ({
+        fileName: `${tag.toLowerCase()}.client.ts`,
+        content: this.generateClient(tag, operations.filter(operation => operation.tag === tag))
+      })),
+      { fileName: 'index.ts', content: this.generateIndex(tags) }
+    ];
+  }
+
+  // TypeScript type expression for a schema; component references keep their names
+  tsType(schema: OpenApiSchema): string {
+    let type: string;
+
+    if (schema.$ref) {
+      type = refName(schema.$ref);
+    } else if (schema.enum) {
+      type = schema.enum.map(value => JSON.stringify(value)).join(' | ');
+    } else if (schema.allOf) {
+      type = schema.allOf.map(part => this.tsType(part)).join(' & ');
+    } else if (schema.anyOf || schema.oneOf) {
+      type = (schema.anyOf || schema.oneOf)!.map(part => this.tsType(part)).join(' | ');
+    } else {
+      switch (schema.type) {
+        case 'string':
+          type = 'string';
+          break;
+        case 'integer':
+        case 'number':
+          type = 'number';
+          break;
+        case 'boolean':
+          type = 'boolean';
+          break;
+        case 'array':
+          type = schema.items ? `${this.wrap(this.tsType(schema.items))}[]` : 'unknown[]';
+          break;
+        case 'object':
+        case undefined:
+          type = schema.properties || schema.additionalProperties !== undefined ? this.objectType(schema) : 'unknown';
+          break;
+        default:
+          type = 'unknown';
+      }
+    }
+
+    return schema.nullable ? `${this.wrap(type)} | null` : type;
+  }
+
+  private objectType(schema: OpenApiSchema): string {
+    const properties = Object.entries(schema.properties || {});
+
+    if (properties.length === 0) {
+      if (schema.additionalProperties === false) {
+        return 'Record<string, never>';
+      }
+      return `Record<string, ${typeof schema.additionalProperties === 'object' ? this.tsType(schema.additionalProperties) : 'unknown'}>`;
+    }
+
+    const required = new Set(schema.required || []);
+    const members = properties.map(([name, property]) => `${this.propertyName(name)}${required.has(name) ? '' : '?'}: ${this.tsType(property)}`);
+    return `{ ${members.join('; ')} }`;
+  }
+
+  private generateTypes(operations: ResolvedOperation[]): string {
+    const blocks: string[] = [];
+
+    for (const [name, schema] of Object.entries(this.document.components?.schemas || {})) {
+      blocks.push(this.declareType(name, schema));
+    }
+
+    for (const operation of operations) {
+      const query = operation.parameters.filter(parameter => parameter.in === 'query');
+      if (query.length > 0) {
+        blocks.push(this.declareParams(operation, query));
+      }
+    }
+
+    return `${this.banner()}${blocks.join('\n\n')}\n`;
+  }
+
+  private declareType(name: string, schema: OpenApiSchema): string {
+    const comment = schema.description ? `// ${schema.description}\n` : '';
+    const refs = (schema.allOf || []).filter(part => part.$ref);
+    const inline = (schema.allOf || []).filter(part => !part.$ref);
+    const objectSchema = schema.allOf ? { type: 'object', ...inline.reduce(this.mergeObjects, {}) } as OpenApiSchema : schema;
+
+    if (!schema.allOf && (schema.type !== 'object' || !schema.properties || Object.keys(schema.properties).length === 0)) {
+      return `${comment}export type ${name} = ${this.tsType(schema)};`;
+    }
+
+    const heritage = refs.length > 0 ? ` extends ${refs.map(part => refName(part.$ref!)).join(', ')}` : '';
+    return `${comment}export interface ${name}${heritage} {\n${this.members(objectSchema)}\n}`;
+  }
+
+  private declareParams(operation: ResolvedOperation, query: OpenApiParameter[]): string {
+    const members = query.map(parameter => {
+      const comment = parameter.description ? ` // ${parameter.description}` : '';
+      return `  ${this.propertyName(parameter.name)}${parameter.required ? '' : '?'}: ${this.tsType(parameter.schema || {})};${comment}`;
+    });
+
+    return `// Query parameters of ${operation.operationId}\nexport interface ${this.paramsTypeName(operation)} {\n${members.join('\n')}\n}`;
+  }
+
+  private members(schema: OpenApiSchema): string {
+    const required = new Set(schema.required || []);
+
+    return Object.entries(schema.properties || {})
+      .map(([name, property]) => {
+        const comment = property.format ? ` // ${property.format}` : '';
+        return `  ${this.propertyName(name)}${required.has(name) ? '' : '?'}: ${this.tsType(property)};${comment}`;
+      })
+      .join('\n');
+  }
+
+  private mergeObjects = (merged: OpenApiSchema, part: OpenApiSchema): OpenApiSchema => ({
+    properties: { ...merged.properties, ...part.properties },
+    required: [...(merged.required || []), ...(part.required || [])]
+  });
+
+  private generateSchemas(): string {
+    const blocks = Object.keys(this.document.components?.schemas || {}).map(name => {
+      const dereferenced = dereference(this.document, { $ref: `#/components/schemas/${name}` });
+      return `export const ${name}Schema: JsonSchema = ${this.literal(dereferenced, 0)};`;
+    });
+
+    return `${this.banner()}import { JsonSchema } from '@/types';\n\n${blocks.join('\n\n')}\n`;
+  }
+
+  private generateClient(tag: string, operations: ResolvedOperation[]): string {
+    const typeImports = new Set<string>();
+    const schemaImports = new Set<string>();
+    const methods = operations.map(operation => this.generateMethod(operation, typeImports, schemaImports));
+    const className = this.clientName(tag);
+
+    const imports = [
+      "import { APIRequestContext } from '@playwright/test';",
+      "import { ApiClientServices, BaseApiClient } from '@/core/base-api-client';",
+      "import { ApiClientConfig, ApiResponse, RequestOptions } from '@/types';",
+      this.importList(typeImports, `./${TYPES_MODULE}`),
+      this.importList(schemaImports, `./${SCHEMAS_MODULE}`)
+    ].filter(Boolean);
+
+    return `${this.banner()}${imports.join('\n')}
+
+// ${tag} operations from ${this.source}
+export class ${className} extends BaseApiClient {
+  constructor(config: ApiClientConfig, requestContext?: APIRequestContext, services?: ApiClientServices) {
+    super(config, requestContext, services);
+  }
+
+${methods.join('\n\n')}
+}
+`;
+  }
+
+  private generateMethod(operation: ResolvedOperation, typeImports: Set<string>, schemaImports: Set<string>): string {
+    const { operationId, method } = operation;
+    const pathParameters = operation.parameters.filter(parameter => parameter.in === 'path');
+    const query = operation.parameters.filter(parameter => parameter.in === 'query');
+    const bodySchema = operation.operation.requestBody?.content['application/json']?.schema;
+    const success = successResponse(operation);
+    const responseType = success?.schema ? this.tsType(success.schema) : 'void';
+
+    const args: string[] = pathParameters.map(parameter => `${parameter.name}: ${this.tsType(parameter.schema || { type: 'string' })}`);
+    if (bodySchema) {
+      const bodyType = this.tsType(bodySchema);
+      args.push(`data: ${bodyType}`);
+      this.collectTypeNames(bodySchema, typeImports);
+    }
+    if (query.length > 0) {
+      const paramsType = this.paramsTypeName(operation);
+      const required = query.some(parameter => parameter.required);
+      args.push(`params${required ? '' : '?'}: ${paramsType}`);
+      typeImports.add(paramsType);
+    }
+    args.push('options?: RequestOptions');
+    if (success?.schema) {
+      this.collectTypeNames(success.schema, typeImports);
+    }
+
+    const url = pathParameters.length > 0
+      ? `\`${operation.path.replace(/\{([^}]+)\}/g, (_match, name) => `\${${name}}`)}\``
+      : `'${operation.path}'`;
+
+    let schemaName: string | undefined;
+    if (success?.schema?.$ref) {
+      schemaName = `${refName(success.schema.$ref)}Schema`;
+      schemaImports.add(schemaName);
+    }
+
+    const call = this.callExpression(method, responseType, url, bodySchema ? 'data' : undefined, query.length > 0, schemaName);
+    const logged = [...pathParameters.map(parameter => parameter.name), ...(query.length > 0 ? ['params'] : [])];
+    const summary = (operation.operation.summary || operationId).replace(/'/g, "\\'");
+
+    return `  // ${method.toUpperCase()} ${operation.path}
+  async ${operationId}(${args.join(', ')}): Promise<ApiResponse<${responseType}>> {
+    this.logger.info('${summary}'${logged.length > 0 ? `, { ${logged.join(', ')} }` : ''});
+
+    const response = await ${call};
+
+    if (!this.isSuccessStatus(response.status)) {
+      return response;
+    }
+
+    this.logger.info('${operationId} succeeded', { ${[...logged, 'status: response.status'].join(', ')} });
+
+    return response;
+  }`;
+  }
+
+  // Uses the get/post/put/patch/delete wrappers unless query parameters have to go with a body or a DELETE
+  private callExpression(method: string, type: string, url: string, data: string | undefined, hasQuery: boolean, schemaName?: string): string {
+    const options = schemaName ? `{\n      responseSchema: ${schemaName},\n      ...options\n    }` : 'options';
+
+    if (method === 'get') {
+      return `this.get<${type}>(${url}, ${hasQuery ? 'params' : 'undefined'}, undefined, ${options})`;
+    }
+
+    if (!hasQuery) {
+      return method === 'delete'
+        ? `this.delete<${type}>(${url}, undefined, ${options})`
+        : `this.${method}<${type}>(${url}, ${data || 'undefined'}, undefined, ${options})`;
+    }
+
+    const fields = [`method: '${method.toUpperCase()}'`, `url: ${url}`, ...(data ? ['data'] : []), 'params'];
+    if (schemaName) {
+      fields.push(`responseSchema: ${schemaName}`);
+    }
+    return `this.request<${type}>({ ${fields.join(', ')}, ...options })`;
+  }
+
+  private generateIndex(tags: string[]): string {
+    const clients = tags.map(tag => `export { ${this.clientName(tag)} } from './${tag.toLowerCase()}.client';`);
+    return `${this.banner()}export * from './${TYPES_MODULE}';\nexport * from './${SCHEMAS_MODULE}';\n${clients.join('\n')}\n`;
+  }
+
+  private collectTypeNames(schema: OpenApiSchema, names: Set<string>): void {
+    if (schema.$ref) {
+      names.add(refName(schema.$ref));
+    }
+    if (schema.items) {
+      this.collectTypeNames(schema.items, names);
+    }
+    Object.values(schema.properties || {}).forEach(property => this.collectTypeNames(property, names));
+  }
+
+  private importList(names: Set<string>, from: string): string {
+    if (names.size === 0) {
+      return '';
+    }
+
+    const sorted = Array.from(names).sort();
+    return sorted.length > 3
+      ? `import {\n${sorted.map(name => `  ${name}`).join(',\n')}\n} from '${from}';`
+      : `import { ${sorted.join(', ')} } from '${from}';`;
+  }
+
+  // Object literal in repo style: unquoted keys where possible, single-quoted strings
+  private literal(value: unknown, depth: number): string {
+    const indent = '  '.repeat(depth + 1);
+    const closing = '  '.repeat(depth);
+
+    if (Array.isArray(value)) {
+      const items = value.map(item => this.literal(item, depth + 1));
+      const inline = `[${items.join(', ')}]`;
+      return inline.length <= 80 && !inline.includes('\n') ? inline : `[\n${items.map(item => `${indent}${item}`).join(',\n')}\n${closing}]`;
+    }
+
+    if (value !== null && typeof value === 'object') {
+      const entries = Object.entries(value as Record<string, unknown>);
+      if (entries.length === 0) {
+        return '{}';
+      }
+      const members = entries.map(([key, member]) => `${isIdentifier(key) ? key : `'${key}'`}: ${this.literal(member, depth + 1)}`);
+      const inline = `{ ${members.join(', ')} }`;
+      return inline.length <= 80 && !inline.includes('\n') ? inline : `{\n${members.map(member => `${indent}${member}`).join(',\n')}\n${closing}}`;
+    }
+
+    if (typeof value === 'string') {
+      return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    }
+
+    return String(value);
+  }
+
+  private clientName(tag: string): string {
+    return `${pascalCase(tag)}ApiClient`;
+  }
+
+  private paramsTypeName(operation: ResolvedOperation): string {
+    return `${pascalCase(operation.operationId)}Params`;
+  }
+
+  private propertyName(name: string): string {
+    return isIdentifier(name) ? name : `'${name}'`;
+  }
+
+  private wrap(type: string): string {
+    return /[|&\s]/.test(type) && !type.startsWith('{') ? `(${type})` : type;
+  }
+
+  private banner(): string {
+    return `// Generated from ${this.source} by \`npm run openapi:generate\`. Do not edit by hand.\n\n`;
+  }
+}
@@ -0,0 +1,253 @@
+import { ApiResponse, JsonSchema } from '@/types';
+import { ApiError } from '@/core/api-error';
+import { ApiInterceptor, PreparedRequest } from '@/core/interceptors';
+import { Logger } from '@/utils/logger';
+import { SchemaValidator } from '@/utils/schema-validator';
+import { OpenApiDocument, OpenApiParameter, OpenApiSchema, OperationMatch, ResolvedOperation } from './openapi.types';
+import { createOperationMatcher, resolveSchema } from './openapi-document';
+
+// Name of the per-test attachment CustomApiTestReporter reads conformance records from
+export const OPENAPI_CONFORMANCE_ATTACHMENT = 'openapi-conformance';
+
+export type ViolationKind = 'request' | 'response';
+
+export interface ContractViolation {
+  kind: ViolationKind; // request: our client sent something off-spec; response: the API answered off-spec
+  location: string; // e.g. query.page, body $.email, status
+  message: string;
+  count: number;
+}
+
+// Conformance of every call made to one operation; undocumented operations are keyed by method and path
+export interface OperationConformance {
+  operation: string; // e.g. GET /api/users/{id}
+  operationId?: string;
+  documented: boolean;
+  calls: number;
+  statuses: Record<string, number>;
+  violations: ContractViolation[];
+}
+
+// Merges per-test conformance records, e.g. the attachments collected by the reporter
+export const mergeConformance = (target: Map<string, OperationConformance>, records: OperationConformance[]): void => {
+  for (const record of records) {
+    const existing = target.get(record.operation);
+    if (!existing) {
+      target.set(record.operation, {
+        ...record,
+        statuses: { ...record.statuses },
+        violations: record.violations.map(violation => ({ ...violation }))
+      });
+      continue;
+    }
+
+    existing.calls += record.calls;
+    Object.entries(record.statuses).forEach(([status, count]) => {
+      existing.statuses[status] = (existing.statuses[status] || 0) + count;
+    });
+    record.violations.forEach(violation => {
+      const match = existing.violations.find(candidate =>
+        candidate.kind === violation.kind && candidate.location === violation.location && candidate.message === violation.message
+      );
+      if (match) {
+        match.count += violation.count;
+      } else {
+        existing.violations.push({ ...violation });
+      }
+    });
+  }
+};
+
+// Interceptor that checks each request and response against the OpenAPI operation it targets.
+// Violations are recorded rather than thrown so a run reports every drift instead of stopping at the first.
+export class OpenApiContractChecker implements ApiInterceptor {
+  readonly name = 'openapi-contract';
+  private document: OpenApiDocument;
+  private matchOperation: (method: string, pathname: string) => OperationMatch | undefined;
+  private validator: SchemaValidator;
+  private records: Map<string, OperationConformance>;
+  private logger: Logger;
+
+  constructor(document: OpenApiDocument) {
+    this.document = document;
+    this.matchOperation = createOperationMatcher(document);
+    // Fields the spec does not list surface as violations unless a schema allows them explicitly
+    this.validator = new SchemaValidator({ definitions: document.components?.schemas, additionalProperties: false });
+    this.records = new Map();
+    this.logger = new Logger('OpenApiContractChecker');
+  }
+
+  onRequest(request: PreparedRequest): void {
+    const match = this.match(request);
+    if (!match) {
+      return;
+    }
+
+    const { operation } = match;
+    const record = this.record(request, operation);
+
+    for (const parameter of operation.parameters) {
+      const value = parameter.in === 'path' ? match.pathValues[parameter.name] : this.queryValues(request)[parameter.name];
+      if (parameter.in === 'path' || parameter.in === 'query') {
+        this.checkParameter(record, parameter, value);
+      }
+    }
+
+    const declaredQuery = new Set(operation.parameters.filter(parameter => parameter.in === 'query').map(parameter => parameter.name));
+    Object.keys(this.queryValues(request))
+      .filter(name => !declaredQuery.has(name))
+      .forEach(name => this.violate(record, 'request', `query.${name}`, 'undocumented query parameter'));
+
+    const requestBody = operation.operation.requestBody;
+    const bodySchema = requestBody?.content['application/json']?.schema;
+    const body = request.config.data;
+
+    if (body === undefined || body === null) {
+      if (requestBody?.required) {
+        this.violate(record, 'request', 'body', 'required request body is missing');
+      }
+    } else if (!requestBody) {
+      this.violate(record, 'request', 'body', 'operation does not accept a request body');
+    } else if (bodySchema) {
+      this.checkSchema(record, 'request', 'body', body, bodySchema);
+    }
+  }
+
+  onResponse(response: ApiResponse, request: PreparedRequest): void {
+    this.checkResponse(request, response.status, response.data);
+  }
+
+  // Thrown non-2xx responses are checked too; the error is always rethrown
+  onError(error: Error, request: PreparedRequest): void {
+    if (error instanceof ApiError) {
+      this.checkResponse(request, error.status, error.body);
+    }
+  }
+
+  getReport(): OperationConformance[] {
+    return Array.from(this.records.values());
+  }
+
+  getViolations(kind?: ViolationKind): (ContractViolation & { operation: string })[] {
+    return this.getReport().flatMap(record => record.violations
+      .filter(violation => !kind || violation.kind === kind)
+      .map(violation => ({ ...violation, operation: record.operation })));
+  }
+
+  reset(): void {
+    this.records.clear();
+  }
+
+  private checkResponse(request: PreparedRequest, status: number, body: unknown): void {
+    const match = this.match(request);
+    const record = this.record(request, match?.operation);
+    record.calls++;
+    record.statuses[status] = (record.statuses[status] || 0) + 1;
+
+    if (!match) {
+      return;
+    }
+
+    const responses = match.operation.operation.responses;
+    const declared = responses[String(status)] || responses[`${String(status)[0]}XX`] || responses.default;
+
+    if (!declared) {
+      this.violate(record, 'response', 'status', `undocumented status ${status} (documented: ${Object.keys(responses).join(', ')})`);
+      return;
+    }
+
+    const schema = declared.content?.['application/json']?.schema;
+    if (schema) {
+      this.checkSchema(record, 'response', 'body', body, schema);
+    }
+  }
+
+  private checkParameter(record: OperationConformance, parameter: OpenApiParameter, value: unknown): void {
+    const location = `${parameter.in}.${parameter.name}`;
+
+    if (value === undefined) {
+      if (parameter.required) {
+        this.violate(record, 'request', location, 'required parameter is missing');
+      }
+      return;
+    }
+
+    if (parameter.schema) {
+      this.checkSchema(record, 'request', location, this.coerce(value, parameter.schema), parameter.schema);
+    }
+  }
+
+  private checkSchema(record: OperationConformance, kind: ViolationKind, location: string, value: unknown, schema: OpenApiSchema): void {
+    const result = this.validator.validate(value, schema as JsonSchema);
+
+    result.issues.forEach(issue => {
+      const path = issue.path === '$' ? location : `${location} ${issue.path}`;
+      this.violate(record, kind, path, `${issue.keyword}: expected ${issue.expected}, received ${issue.received}`);
+    });
+  }
+
+  // Query and path values arrive as strings or loosely typed params; convert them to the declared primitive first
+  private coerce(value: unknown, schema: OpenApiSchema): unknown {
+    const type = resolveSchema(this.document, schema).type;
+
+    if ((type === 'integer' || type === 'number') && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      return Number(value);
+    }
+    if (type === 'boolean' && (value === 'true' || value === 'false')) {
+      return value === 'true';
+    }
+    return value;
+  }
+
+  private violate(record: OperationConformance, kind: ViolationKind, location: string, message: string): void {
+    const existing = record.violations.find(violation =>
+      violation.kind === kind && violation.location === location && violation.message === message
+    );
+
+    if (existing) {
+      existing.count++;
+      return;
+    }
+
+    record.violations.push({ kind, location, message, count: 1 });
+    this.logger.warn('OpenAPI contract violation', { operation: record.operation, kind, location, message });
+  }
+
+  private record(request: PreparedRequest, operation?: ResolvedOperation): OperationConformance {
+    const key = operation
+      ? `${operation.method.toUpperCase()} ${operation.path}`
+      : `${request.config.method} ${new URL(request.url).pathname}`;
+
+    if (!this.records.has(key)) {
+      this.records.set(key, {
+        operation: key,
+        operationId: operation?.operationId,
+        documented: !!operation,
+        calls: 0,
+        statuses: {},
+        violations: []
+      });
+
+      if (!operation) {
+        this.logger.warn('Request to an operation missing from the OpenAPI document', { operation: key });
+      }
+    }
+
+    return this.records.get(key)!;
+  }
+
+  private match(request: PreparedRequest): OperationMatch | undefined {
+    return this.matchOperation(request.config.method, new URL(request.url).pathname);
+  }
+
+  private queryValues(request: PreparedRequest): Record<string, unknown> {
+    const values: Record<string, unknown> = Object.fromEntries(new URL(request.url).searchParams.entries());
+
+    Object.entries(request.config.params || {}).forEach(([name, value]) => {
+      if (value !== undefined && value !== null) {
+        values[name] = value;
+      }
+    });
+    return values;
+  }
+}
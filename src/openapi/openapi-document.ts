@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import { OpenApiDocument, OpenApiMethod, OpenApiSchema, OperationMatch, ResolvedOperation } from './openapi.types';
+
+// Relative to the repository root, where npm scripts and Playwright run
+export const DEFAULT_OPENAPI_PATH = 'openapi/reqres.openapi.json';
+
+const METHODS: OpenApiMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+export const loadOpenApiDocument = (filePath: string = DEFAULT_OPENAPI_PATH): OpenApiDocument => {
+  const document = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as OpenApiDocument;
+
+  if (!document.openapi?.startsWith('3.')) {
+    throw new Error(`Unsupported OpenAPI version in ${filePath}: ${document.openapi}`);
+  }
+  return document;
+};
+
+// Lists operations in document order, with path-level parameters merged under operation-level ones
+export const listOperations = (document: OpenApiDocument): ResolvedOperation[] => {
+  const operations: ResolvedOperation[] = [];
+
+  for (const [routePath, pathItem] of Object.entries(document.paths)) {
+    for (const method of METHODS) {
+      const operation = pathItem[method];
+      if (!operation) {
+        continue;
+      }
+
+      const own = operation.parameters || [];
+      const inherited = (pathItem.parameters || []).filter(
+        parameter => !own.some(candidate => candidate.name === parameter.name && candidate.in === parameter.in)
+      );
+
+      operations.push({
+        method,
+        path: routePath,
+        operationId: operation.operationId,
+        tag: operation.tags?.[0] || 'Default',
+        operation,
+        parameters: [...inherited, ...own]
+      });
+    }
+  }
+
+  return operations;
+};
+
+// Returns a lookup from method and URL pathname to the operation whose path template matches.
+// The template with the fewest parameters wins, so /users/search beats /users/{id}.
+export const createOperationMatcher = (
+  document: OpenApiDocument
+): ((method: string, pathname: string) => OperationMatch | undefined) => {
+  const compiled = listOperations(document).map(operation => {
+    const parameters: string[] = [];
+    const source = operation.path
+      .split(/(\{[^}]+\})/)
+      .map(segment => {
+        const parameter = /^\{([^}]+)\}$/.exec(segment);
+        if (parameter) {
+          parameters.push(parameter[1]);
+          return '([^/]+)';
+        }
+        return segment.replace(/[.*+?^$()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+
+    return { operation, parameters, pattern: new RegExp(`^${source}/?$`) };
+  });
+
+  return (method, pathname) => {
+    const candidate = compiled
+      .filter(entry => entry.operation.method === method.toLowerCase() && entry.pattern.test(pathname))
+      .sort((a, b) => a.parameters.length - b.parameters.length)[0];
+
+    if (!candidate) {
+      return undefined;
+    }
+
+    const values = candidate.pattern.exec(pathname)!.slice(1).map(decodeURIComponent);
+    return {
+      operation: candidate.operation,
+      pathValues: Object.fromEntries(candidate.parameters.map((name, index) => [name, values[index]]))
+    };
+  };
+};
+
+export const refName = (ref: string): string => ref.split('/').pop()!;
+
+export const resolveSchema = (document: OpenApiDocument, schema: OpenApiSchema): OpenApiSchema => {
+  if (!schema.$ref) {
+    return schema;
+  }
+
+  const resolved = document.components?.schemas?.[refName(schema.$ref)];
+  if (!resolved) {
+    throw new Error(`Unresolved schema reference: ${schema.$ref}`);
+  }
+  return resolveSchema(document, resolved);
+};
+
+// Inlines every $ref so the schema can be validated without the document
+export const dereference = (document: OpenApiDocument, schema: OpenApiSchema): OpenApiSchema => {
+  const resolved = resolveSchema(document, schema);
+  const copy: OpenApiSchema = schema.$ref ? { title: resolved.title || refName(schema.$ref), ...resolved } : { ...resolved };
+  delete copy.example;
+
+  if (resolved.properties) {
+    copy.properties = Object.fromEntries(
+      Object.entries(resolved.properties).map(([name, property]) => [name, dereference(document, property)])
+    );
+  }
+  if (resolved.items) {
+    copy.items = dereference(document, resolved.items);
+  }
+  if (typeof resolved.additionalProperties === 'object') {
+    copy.additionalProperties = dereference(document, resolved.additionalProperties);
+  }
+  for (const keyword of ['allOf', 'anyOf', 'oneOf'] as const) {
+    if (resolved[keyword]) {
+      copy[keyword] = resolved[keyword]!.map(part => dereference(document, part));
+    }
+  }
+
+  return copy;
+};
+
+// Properties and required names of an object schema, following allOf composition
+export const collectProperties = (
+  document: OpenApiDocument,
+  schema: OpenApiSchema
+): { properties: Record<string, OpenApiSchema>; required: Set<string> } => {
+  const resolved = resolveSchema(document, schema);
+  const properties: Record<string, OpenApiSchema> = {};
+  const required = new Set<string>();
+
+  for (const part of resolved.allOf || []) {
+    const collected = collectProperties(document, part);
+    Object.assign(properties, collected.properties);
+    collected.required.forEach(name => required.add(name));
+  }
+
+  Object.assign(properties, resolved.properties);
+  (resolved.required || []).forEach(name => required.add(name));
+
+  return { properties, required };
+};
+
+// The JSON body schema of the first 2xx response, if the operation declares one
+export const successResponse = (operation: ResolvedOperation): { status: string; schema?: OpenApiSchema } | undefined => {
+  const status = Object.keys(operation.operation.responses).find(code => /^2\d\d$/.test(code));
+  if (!status) {
+    return undefined;
+  }
+
+  return { status, schema: operation.operation.responses[status].content?.['application/json']?.schema };
+};
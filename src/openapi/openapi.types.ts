@@ -0,0 +1,80 @@
+import { JsonSchema } from '../types/schema.types';
+
+// The parts of an OpenAPI 3 document the generator and checkers read
+
+export type OpenApiMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface OpenApiSchema extends JsonSchema {
+  properties?: Record<string, OpenApiSchema>;
+  items?: OpenApiSchema;
+  additionalProperties?: boolean | OpenApiSchema;
+  allOf?: OpenApiSchema[];
+  anyOf?: OpenApiSchema[];
+  oneOf?: OpenApiSchema[];
+  example?: unknown;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiRequestBody {
+  required?: boolean;
+  description?: string;
+  content: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiRequestBody;
+  responses: Record<string, OpenApiResponse>;
+}
+
+export type OpenApiPathItem = Partial<Record<OpenApiMethod, OpenApiOperation>> & {
+  parameters?: OpenApiParameter[];
+};
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  tags?: { name: string; description?: string }[];
+  paths: Record<string, OpenApiPathItem>;
+  components?: {
+    schemas?: Record<string, OpenApiSchema>;
+    securitySchemes?: Record<string, unknown>;
+  };
+}
+
+// An operation with its path-level parameters merged in
+export interface ResolvedOperation {
+  method: OpenApiMethod;
+  path: string;
+  operationId: string;
+  tag: string;
+  operation: OpenApiOperation;
+  parameters: OpenApiParameter[];
+}
+
+// The operation a concrete request targets, with the values of its path template parameters
+export interface OperationMatch {
+  operation: ResolvedOperation;
+  pathValues: Record<string, string>;
+}
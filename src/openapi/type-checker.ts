@@ -0,0 +1,140 @@
+import * as ts from 'typescript';
+import { OpenApiDocument, OpenApiSchema } from './openapi.types';
+import { collectProperties, refName, resolveSchema } from './openapi-document';
+
+export const DEFAULT_TYPES_PATH = 'src/types/api.types.ts';
+
+export type DriftSeverity = 'error' | 'warning';
+
+export interface TypeDrift {
+  severity: DriftSeverity; // errors break callers; warnings are looser than the spec but still compatible
+  path: string; // e.g. CreateUserResponse.id
+  message: string;
+}
+
+const PRIMITIVE_FLAGS: Record<string, ts.TypeFlags> = {
+  string: ts.TypeFlags.StringLike,
+  integer: ts.TypeFlags.NumberLike,
+  number: ts.TypeFlags.NumberLike,
+  boolean: ts.TypeFlags.BooleanLike
+};
+
+// Compares exported hand-written interfaces with the component schemas of the same name
+export class OpenApiTypeChecker {
+  private document: OpenApiDocument;
+  private typesFile: string;
+  private checker!: ts.TypeChecker;
+
+  constructor(document: OpenApiDocument, typesFile: string = DEFAULT_TYPES_PATH) {
+    this.document = document;
+    this.typesFile = typesFile;
+  }
+
+  check(): TypeDrift[] {
+    const program = ts.createProgram([this.typesFile], { strict: true, noEmit: true, skipLibCheck: true });
+    const source = program.getSourceFile(this.typesFile);
+    if (!source) {
+      throw new Error(`Types file not found: ${this.typesFile}`);
+    }
+
+    this.checker = program.getTypeChecker();
+    const moduleSymbol = this.checker.getSymbolAtLocation(source);
+    const schemas = this.document.components?.schemas || {};
+    const drifts: TypeDrift[] = [];
+
+    for (const symbol of moduleSymbol ? this.checker.getExportsOfModule(moduleSymbol) : []) {
+      const name = symbol.getName();
+      if (schemas[name] && symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.TypeAlias)) {
+        this.compare(this.checker.getDeclaredTypeOfSymbol(symbol), schemas[name], name, drifts);
+      }
+    }
+
+    return drifts;
+  }
+
+  private compare(type: ts.Type, schema: OpenApiSchema, path: string, drifts: TypeDrift[]): void {
+    const resolved = resolveSchema(this.document, schema);
+    const actual = this.checker.getNonNullableType(type);
+
+    if (actual.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return;
+    }
+
+    // A reference to another checked interface is reported once, under that interface's own name
+    if (schema.$ref && actual.getSymbol()?.getName() === refName(schema.$ref)) {
+      return;
+    }
+
+    if (resolved.type === 'array') {
+      if (!this.checker.isArrayType(actual)) {
+        this.mismatch(path, 'an array', actual, drifts);
+      } else if (resolved.items) {
+        this.compare(this.checker.getTypeArguments(actual as ts.TypeReference)[0], resolved.items, `${path}[]`, drifts);
+      }
+      return;
+    }
+
+    if (resolved.type === 'object' || resolved.properties || resolved.allOf) {
+      this.compareObject(actual, schema, path, drifts);
+      return;
+    }
+
+    const flag = PRIMITIVE_FLAGS[resolved.type as string];
+    const members = actual.isUnion() ? actual.types : [actual];
+    if (flag && !members.every(member => member.flags & flag)) {
+      this.mismatch(path, resolved.type as string, actual, drifts);
+    }
+  }
+
+  private compareObject(actual: ts.Type, schema: OpenApiSchema, path: string, drifts: TypeDrift[]): void {
+    const { properties, required } = collectProperties(this.document, schema);
+    if (Object.keys(properties).length === 0) {
+      return;
+    }
+
+    if (!(actual.flags & ts.TypeFlags.Object)) {
+      this.mismatch(path, 'an object', actual, drifts);
+      return;
+    }
+
+    const declared = new Map(this.checker.getPropertiesOfType(actual).map(property => [property.getName(), property]));
+
+    for (const [name, property] of Object.entries(properties)) {
+      const propertyPath = `${path}.${name}`;
+      const symbol = declared.get(name);
+
+      if (!symbol) {
+        drifts.push({ severity: 'error', path: propertyPath, message: 'declared in the spec but missing from the types' });
+        continue;
+      }
+
+      const optional = (symbol.flags & ts.SymbolFlags.Optional) !== 0;
+      if (required.has(name) && optional) {
+        drifts.push({ severity: 'warning', path: propertyPath, message: 'always present per the spec but optional in the types' });
+      } else if (!required.has(name) && !optional) {
+        drifts.push({ severity: 'error', path: propertyPath, message: 'optional in the spec but required in the types' });
+      }
+
+      this.compare(this.checker.getTypeOfSymbol(symbol), property, propertyPath, drifts);
+    }
+
+    for (const [name, symbol] of declared) {
+      if (!(name in properties)) {
+        const optional = (symbol.flags & ts.SymbolFlags.Optional) !== 0;
+        drifts.push({
+          severity: optional ? 'warning' : 'error',
+          path: `${path}.${name}`,
+          message: `not in the spec${optional ? ' (optional, never sent)' : ''}`
+        });
+      }
+    }
+  }
+
+  private mismatch(path: string, expected: string, actual: ts.Type, drifts: TypeDrift[]): void {
+    drifts.push({
+      severity: 'error',
+      path,
+      message: `spec says ${expected}, types say ${this.checker.typeToString(actual)}`
+    });
+  }
+}
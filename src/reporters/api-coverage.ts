@@ -0,0 +1,183 @@
+import { RequestRecord } from '@/types';
+import { OpenApiDocument } from '@/openapi/openapi.types';
+import { createOperationMatcher, listOperations } from '@/openapi/openapi-document';
+
+// Status key for calls that ended without a response, e.g. connection refused
+export const NO_RESPONSE = 'ERR';
+
+// One endpoint and method with the statuses the suite received from it
+export interface CoverageEntry {
+  method: string;
+  endpoint: string;
+  operationId?: string;
+  documented?: boolean; // set when coverage is measured against an OpenAPI document
+  calls: number;
+  statuses: Record<string, number>;
+  missingStatuses: string[]; // documented responses no test received
+}
+
+export interface CoverageSummary {
+  endpoints: number;
+  calls: number;
+  operations?: number;
+  coveredOperations?: number;
+  documentedResponses?: number;
+  coveredResponses?: number;
+  undocumentedEndpoints?: number;
+}
+
+export interface CoverageReport {
+  generatedAt: string;
+  spec?: string;
+  summary: CoverageSummary;
+  entries: CoverageEntry[];
+}
+
+// A documented response such as 2XX covers any status in its class
+const covers = (documented: string, status: string): boolean =>
+  documented === status || (/^\dXX$/i.test(documented) && documented[0] === status[0]);
+
+// Builds the endpoint x method x status matrix; with a document, uncalled operations and statuses are listed too
+export const buildCoverage = (records: RequestRecord[], document?: OpenApiDocument, spec?: string): CoverageReport => {
+  const entries = new Map<string, CoverageEntry>();
+  const entryFor = (method: string, endpoint: string): CoverageEntry => {
+    const key = `${method} ${endpoint}`;
+    if (!entries.has(key)) {
+      entries.set(key, { method, endpoint, calls: 0, statuses: {}, missingStatuses: [] });
+    }
+    return entries.get(key)!;
+  };
+
+  const matchOperation = document ? createOperationMatcher(document) : undefined;
+
+  if (document) {
+    listOperations(document).forEach(operation => {
+      Object.assign(entryFor(operation.method.toUpperCase(), operation.path), {
+        operationId: operation.operationId,
+        documented: true
+      });
+    });
+  }
+
+  records.forEach(record => {
+    const match = matchOperation?.(record.method, new URL(record.url).pathname);
+    const entry = entryFor(record.method, match ? match.operation.path : record.endpoint);
+    const status = record.status === undefined ? NO_RESPONSE : String(record.status);
+
+    entry.calls++;
+    entry.statuses[status] = (entry.statuses[status] || 0) + 1;
+    if (document && !match) {
+      entry.documented = false;
+    }
+  });
+
+  if (document) {
+    listOperations(document).forEach(operation => {
+      const entry = entryFor(operation.method.toUpperCase(), operation.path);
+      entry.missingStatuses = Object.keys(operation.operation.responses)
+        .filter(documented => documented !== 'default')
+        .filter(documented => !Object.keys(entry.statuses).some(status => covers(documented, status)));
+    });
+  }
+
+  const sorted = Array.from(entries.values()).sort((a, b) =>
+    a.endpoint.localeCompare(b.endpoint) || a.method.localeCompare(b.method)
+  );
+  const summary: CoverageSummary = {
+    endpoints: sorted.filter(entry => entry.calls > 0).length,
+    calls: records.length
+  };
+
+  if (document) {
+    const operations = sorted.filter(entry => entry.documented);
+    const documentedResponses = listOperations(document).reduce(
+      (sum, operation) => sum + Object.keys(operation.operation.responses).filter(status => status !== 'default').length,
+      0
+    );
+
+    Object.assign(summary, {
+      operations: operations.length,
+      coveredOperations: operations.filter(entry => entry.calls > 0).length,
+      documentedResponses,
+      coveredResponses: documentedResponses - operations.reduce((sum, entry) => sum + entry.missingStatuses.length, 0),
+      undocumentedEndpoints: sorted.filter(entry => entry.documented === false).length
+    });
+  }
+
+  return { generatedAt: new Date().toISOString(), spec, summary, entries: sorted };
+};
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const renderCoverageHtml = (report: CoverageReport): string => {
+  const statuses = Array.from(new Set(report.entries.flatMap(entry => [
+    ...Object.keys(entry.statuses),
+    ...entry.missingStatuses
+  ]))).sort();
+  const { summary } = report;
+  const percent = (covered?: number, total?: number) =>
+    total ? `${((covered || 0) / total * 100).toFixed(1)}%` : 'n/a';
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+    <title>API Coverage Report</title>
+    <style>
+        body { font-family: Arial, sans-serif; margin: 20px; }
+        .header { background: #f5f5f5; padding: 20px; border-radius: 5px; }
+        .summary { display: grid; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); gap: 20px; margin: 20px 0; }
+        .metric { background: white; border: 1px solid #ddd; padding: 15px; border-radius: 5px; text-align: center; }
+        .metric h3 { margin: 0 0 10px 0; color: #333; }
+        .metric .value { font-size: 24px; font-weight: bold; color: #007acc; }
+        table { border-collapse: collapse; width: 100%; }
+        th, td { border: 1px solid #ddd; padding: 8px; text-align: center; }
+        td.endpoint { text-align: left; font-family: monospace; }
+        td.hit { background: #e8f5e9; }
+        td.missing { background: #ffebee; color: #c62828; }
+        tr.uncalled td.endpoint { color: #c62828; }
+        tr.undocumented td.endpoint { font-style: italic; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>🗺️ API Coverage Report</h1>
+        <p>Generated on: ${new Date(report.generatedAt).toLocaleString()}</p>
+        ${report.spec ? `<p>Measured against: ${escapeHtml(report.spec)}</p>` : ''}
+    </div>
+
+    <div class="summary">
+        <div class="metric">
+            <h3>Endpoints Called</h3>
+            <div class="value">${summary.endpoints}</div>
+        </div>
+        <div class="metric">
+            <h3>API Calls</h3>
+            <div class="value">${summary.calls}</div>
+        </div>
+        ${summary.operations !== undefined ? `
+        <div class="metric">
+            <h3>Operations Covered</h3>
+            <div class="value">${summary.coveredOperations}/${summary.operations} (${percent(summary.coveredOperations, summary.operations)})</div>
+        </div>
+        <div class="metric">
+            <h3>Responses Covered</h3>
+            <div class="value">${summary.coveredResponses}/${summary.documentedResponses} (${percent(summary.coveredResponses, summary.documentedResponses)})</div>
+        </div>` : ''}
+    </div>
+
+    <table>
+        <tr><th>Method</th><th>Endpoint</th>${statuses.map(status => `<th>${status}</th>`).join('')}</tr>
+        ${report.entries.map(entry => `
+        <tr class="${entry.calls === 0 ? 'uncalled' : ''} ${entry.documented === false ? 'undocumented' : ''}">
+            <td>${entry.method}</td>
+            <td class="endpoint">${escapeHtml(entry.endpoint)}${entry.documented === false ? ' (not in spec)' : ''}</td>
+            ${statuses.map(status => entry.statuses[status]
+              ? `<td class="hit">${entry.statuses[status]}</td>`
+              : entry.missingStatuses.includes(status) ? '<td class="missing">0</td>' : '<td></td>').join('')}
+        </tr>`).join('')}
+    </table>
+</body>
+</html>`;
+};
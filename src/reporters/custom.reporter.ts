@@ -2,6 +2,30 @@ import { Reporter, TestCase, TestResult, FullResult } from '@playwright/test/rep
 import * as fs from 'fs';
 import * as path from 'path';
 import { Logger } from '@/utils/logger';
+import { CacheOutcome, RequestRecord } from '@/types';
+import { REQUEST_RECORDS_ATTACHMENT } from '@/core/request-recorder';
+import { HAR_ATTACHMENT } from '@/core/har-recorder';
+import {
+  CIRCUIT_BREAKERS_ATTACHMENT,
+  CircuitBreakerSnapshot,
+  aggregateCircuitBreakers
+} from '@/core/circuit-breaker-registry';
+import { TEST_LOGS_ATTACHMENT } from '@/utils/correlation';
+import { loadOpenApiDocument } from '@/openapi/openapi-document';
+import { OPENAPI_CONFORMANCE_ATTACHMENT, OperationConformance, mergeConformance } from '@/openapi/contract-checker';
+import { buildCoverage, escapeHtml, renderCoverageHtml } from './api-coverage';
+
+// Call statistics for one method and endpoint template, built from the request records
+interface EndpointStats {
+  endpoint: string;
+  calls: number;
+  failures: number;
+  averageDuration: number;
+  p95Duration: number;
+  maxDuration: number;
+  retries: number;
+  averageResponseSize: number;
+}
 
 export default class CustomApiTestReporter implements Reporter {
   private logger: Logger;
@@ -12,12 +36,25 @@ export default class CustomApiTestReporter implements Reporter {
     duration: number;
     apiCalls?: number;
     errors?: string[];
+    har?: string; // relative to outputDir
+    logs?: string[]; // only for failing tests
   }>;
   private outputDir: string;
-
-  constructor(options: { outputDir?: string } = {}) {
+  private conformance: Map<string, OperationConformance>;
+  private requestRecords: RequestRecord[];
+  private cacheOutcomes: Record<CacheOutcome, number>;
+  private circuitBreakers: Map<string, CircuitBreakerSnapshot>;
+  private openApiSpec?: string;
+
+  // openApiSpec: measure coverage against this OpenAPI document instead of only the endpoints called
+  constructor(options: { outputDir?: string; openApiSpec?: string } = {}) {
     this.logger = new Logger('CustomApiTestReporter');
     this.testResults = [];
+    this.conformance = new Map();
+    this.requestRecords = [];
+    this.cacheOutcomes = { hit: 0, revalidated: 0, miss: 0 };
+    this.circuitBreakers = new Map();
+    this.openApiSpec = options.openApiSpec;
     this.outputDir = options.outputDir || 'test-results';
     this.startTime = new Date();
 
@@ -55,15 +92,30 @@ export default class CustomApiTestReporter implements Reporter {
     const duration = result.duration;
     const status = result.status;
 
-    const apiCalls = this.extractApiCallCount(result);
+    const requests = this.extractRequestRecords(result);
+    // Cache hits never reached the API, so API calls, coverage, statuses and endpoint timings leave them out
+    const sent = requests.filter(r => r.cache !== 'hit');
+    const apiCalls = sent.length;
     const errors = this.extractErrors(result);
+    mergeConformance(this.conformance, this.extractConformance(result));
+    requests.forEach(r => {
+      if (r.cache) {
+        this.cacheOutcomes[r.cache]++;
+      }
+    });
+    this.requestRecords.push(...sent);
+    this.extractCircuitBreakers(result).forEach(snapshot => {
+      this.circuitBreakers.set(`${snapshot.registry} ${snapshot.key}`, snapshot);
+    });
 
     this.testResults.push({
       test,
       result,
       duration,
       apiCalls,
-      errors
+      errors,
+      har: this.extractHarPath(result),
+      logs: this.extractLogs(result)
     });
 
     this.logger.logTestEnd(test.title, status as any, duration, errors?.[0]);
@@ -87,18 +139,48 @@ export default class CustomApiTestReporter implements Reporter {
     this.logger.info('Test run completed', summary);
 
     this.printConsoleSummary(summary, totalDuration);
+    this.printFailureLogs();
     this.generateJsonReport(summary, totalDuration);
     this.generateHtmlReport(summary, totalDuration);
     this.generateApiMetricsReport();
+    this.generateConformanceReport();
+    this.generateCoverageReport();
+    this.generateCircuitBreakerReport();
 
     console.log(`\n Reports generated in: ${this.outputDir}`);
   }
 
-  // Extract API call count from test output for metrics
-  private extractApiCallCount(result: TestResult): number {
-    const stdout = result.stdout.join('');
-    const apiCallMatches = stdout.match(/API Request:/g);
-    return apiCallMatches ? apiCallMatches.length : 0;
+  // Every call a client made during the test, attached by the requestRecorder fixture
+  private extractRequestRecords(result: TestResult): RequestRecord[] {
+    return result.attachments
+      .filter(attachment => attachment.name === REQUEST_RECORDS_ATTACHMENT && attachment.body)
+      .flatMap(attachment => JSON.parse(attachment.body!.toString()) as RequestRecord[]);
+  }
+
+  // HAR file saved by the harRecorder fixture when RECORD_HAR is on
+  private extractHarPath(result: TestResult): string | undefined {
+    const attachment = result.attachments.find(a => a.name === HAR_ATTACHMENT && a.path);
+    return attachment && path.relative(this.outputDir, attachment.path!);
+  }
+
+  // Log lines of a failing test, attached by the correlationId fixture
+  private extractLogs(result: TestResult): string[] | undefined {
+    const attachment = result.attachments.find(a => a.name === TEST_LOGS_ATTACHMENT && a.body);
+    return attachment?.body!.toString().split('\n');
+  }
+
+  // Conformance records attached by the apiClients fixture when CONTRACT_CHECK is on
+  private extractConformance(result: TestResult): OperationConformance[] {
+    return result.attachments
+      .filter(attachment => attachment.name === OPENAPI_CONFORMANCE_ATTACHMENT && attachment.body)
+      .flatMap(attachment => JSON.parse(attachment.body!.toString()) as OperationConformance[]);
+  }
+
+  // Snapshots are cumulative, so a later test's snapshot of the same breaker replaces an earlier one
+  private extractCircuitBreakers(result: TestResult): CircuitBreakerSnapshot[] {
+    return result.attachments
+      .filter(attachment => attachment.name === CIRCUIT_BREAKERS_ATTACHMENT && attachment.body)
+      .flatMap(attachment => JSON.parse(attachment.body!.toString()) as CircuitBreakerSnapshot[]);
   }
 
   private extractErrors(result: TestResult): string[] {
@@ -176,12 +258,40 @@ export default class CustomApiTestReporter implements Reporter {
     console.log(`⏰ Timed Out: ${summary.timedOut}`);
     console.log(`📈 Success Rate: ${summary.successRate.toFixed(2)}%`);
     console.log(`🌐 Total API Calls: ${summary.totalApiCalls}`);
+    const cache = this.getCacheSummary();
+    if (cache) {
+      console.log(`🗄️  HTTP Cache: ${cache.hits} hit(s), ${cache.revalidated} revalidated (304), ${cache.misses} miss(es) - ${cache.hitRate}% without a response body`);
+    }
     console.log(`⚡ Average Test Duration: ${summary.averageTestDuration.toFixed(2)}ms`);
     console.log(`🐌 Slowest Test: ${summary.slowestTest.title} (${summary.slowestTest.duration}ms)`);
     console.log(`🚀 Fastest Test: ${summary.fastestTest.title} (${summary.fastestTest.duration}ms)`);
+
+    const slowest = this.getEndpointStats().slice(0, 5);
+    if (slowest.length > 0) {
+      console.log('🐢 Slowest Endpoints (avg / p95 / max):');
+      slowest.forEach(stats => console.log(
+        `   ${stats.endpoint} - ${stats.averageDuration}ms / ${stats.p95Duration}ms / ${stats.maxDuration}ms (${stats.calls} calls)`
+      ));
+    }
     console.log('='.repeat(60));
   }
 
+  // Last lines logged by each failing test, grouped per test and attempt; the JSON report has them in full
+  private printFailureLogs(excerptLength: number = 20) {
+    const failing = this.testResults.filter(r => r.logs && r.logs.length > 0);
+    if (failing.length === 0) {
+      return;
+    }
+
+    console.log('\n🔎 LOGS FROM FAILED TESTS');
+    failing.forEach(r => {
+      const logs = r.logs!;
+      const retry = r.result.retry > 0 ? ` (retry ${r.result.retry})` : '';
+      console.log(`--- ${r.test.title}${retry} - last ${Math.min(excerptLength, logs.length)} of ${logs.length} line(s)`);
+      logs.slice(-excerptLength).forEach(line => console.log(`   ${line}`));
+    });
+  }
+
   private generateJsonReport(summary: any, _totalDuration: number) {
     const report = {
       summary,
@@ -195,6 +305,8 @@ export default class CustomApiTestReporter implements Reporter {
         duration: r.duration,
         apiCalls: r.apiCalls,
         errors: r.errors,
+        har: r.har,
+        logs: r.logs,
         retry: r.result.retry
       }))
     };
@@ -216,7 +328,15 @@ export default class CustomApiTestReporter implements Reporter {
       totalApiCalls: this.testResults.reduce((sum, r) => sum + (r.apiCalls || 0), 0),
       averageApiCallsPerTest: this.testResults.reduce((sum, r) => sum + (r.apiCalls || 0), 0) / this.testResults.length,
       testsWithApiCalls: this.testResults.filter(r => (r.apiCalls || 0) > 0).length,
-      apiCallDistribution: this.getApiCallDistribution()
+      apiCallDistribution: this.getApiCallDistribution(),
+      statusDistribution: this.getStatusDistribution(),
+      durationDistribution: this.getDurationDistribution(),
+      retriedCalls: this.requestRecords.filter(r => (r.retries || 0) > 0).length,
+      totalRetries: this.requestRecords.reduce((sum, r) => sum + (r.retries || 0), 0),
+      requestBytes: this.requestRecords.reduce((sum, r) => sum + r.requestSize, 0),
+      responseBytes: this.requestRecords.reduce((sum, r) => sum + (r.responseSize || 0), 0),
+      slowestEndpoints: this.getEndpointStats(),
+      httpCache: this.getCacheSummary()
     };
 
     const reportPath = path.join(this.outputDir, 'api-metrics.json');
@@ -224,6 +344,102 @@ export default class CustomApiTestReporter implements Reporter {
     this.logger.info('API metrics report generated', { path: reportPath });
   }
 
+  // Per-operation OpenAPI conformance; skipped when no test ran with the contract checker
+  private generateConformanceReport() {
+    if (this.conformance.size === 0) {
+      return;
+    }
+
+    const operations = Array.from(this.conformance.values()).sort((a, b) => a.operation.localeCompare(b.operation));
+    const summary = {
+      operations: operations.length,
+      undocumentedOperations: operations.filter(op => !op.documented).length,
+      conformingOperations: operations.filter(op => op.documented && op.violations.length === 0).length,
+      requestViolations: operations.reduce((sum, op) => sum + op.violations.filter(v => v.kind === 'request').length, 0),
+      responseViolations: operations.reduce((sum, op) => sum + op.violations.filter(v => v.kind === 'response').length, 0)
+    };
+
+    const reportPath = path.join(this.outputDir, 'openapi-conformance.json');
+    fs.writeFileSync(reportPath, JSON.stringify({ summary, operations }, null, 2));
+    this.logger.info('OpenAPI conformance report generated', { path: reportPath, ...summary });
+
+    console.log('\n📜 OPENAPI CONFORMANCE');
+    operations.forEach(op => {
+      const statuses = Object.entries(op.statuses).map(([status, count]) => `${status}×${count}`).join(', ');
+      const marker = !op.documented ? '❓' : op.violations.length === 0 ? '✅' : '⚠️ ';
+      console.log(`${marker} ${op.operation} - ${op.calls} calls (${statuses})${op.documented ? '' : ' - not in the spec'}`);
+      op.violations.forEach(v => console.log(`    ${v.kind} ${v.location}: ${v.message} (×${v.count})`));
+    });
+  }
+
+  // Endpoint x method x status matrix, next to api-test-report.html
+  private generateCoverageReport() {
+    let document;
+    if (this.openApiSpec) {
+      try {
+        document = loadOpenApiDocument(this.openApiSpec);
+      } catch (error) {
+        this.logger.warn('Measuring coverage without the OpenAPI document', {
+          spec: this.openApiSpec,
+          error: (error as Error).message
+        });
+      }
+    }
+
+    const coverage = buildCoverage(this.requestRecords, document, document && this.openApiSpec);
+    const jsonPath = path.join(this.outputDir, 'api-coverage.json');
+    const htmlPath = path.join(this.outputDir, 'api-coverage.html');
+
+    fs.writeFileSync(jsonPath, JSON.stringify(coverage, null, 2));
+    fs.writeFileSync(htmlPath, renderCoverageHtml(coverage));
+    this.logger.info('API coverage report generated', { path: htmlPath, ...coverage.summary });
+
+    const { summary } = coverage;
+    console.log(`\n🗺️  API Coverage: ${summary.endpoints} endpoint(s), ${summary.calls} call(s)`);
+    if (summary.operations !== undefined) {
+      console.log(`   Operations: ${summary.coveredOperations}/${summary.operations}, documented responses: ${summary.coveredResponses}/${summary.documentedResponses}`);
+      coverage.entries
+        .filter(entry => entry.documented && entry.missingStatuses.length > 0)
+        .forEach(entry => console.log(entry.calls === 0
+          ? `   ❌ ${entry.method} ${entry.endpoint} never called`
+          : `   ⚠️  ${entry.method} ${entry.endpoint} never returned ${entry.missingStatuses.join(', ')}`));
+    }
+  }
+
+  // Final state and counts of every breaker the tests used; skipped when none was used
+  private generateCircuitBreakerReport() {
+    if (this.circuitBreakers.size === 0) {
+      return;
+    }
+
+    const breakers = Array.from(this.circuitBreakers.values())
+      .sort((a, b) => a.key.localeCompare(b.key) || a.registry.localeCompare(b.registry));
+    const summary = aggregateCircuitBreakers(breakers);
+
+    const reportPath = path.join(this.outputDir, 'circuit-breakers.json');
+    fs.writeFileSync(reportPath, JSON.stringify({ summary, breakers }, null, 2));
+    this.logger.info('Circuit breaker report generated', { path: reportPath, ...summary });
+
+    console.log(`\n⚡ Circuit Breakers: ${summary.breakers} (${summary.open} open, ${summary.halfOpen} half-open), ${summary.rejectedRequests} rejected call(s)`);
+    breakers
+      .filter(breaker => breaker.state !== 'CLOSED' || breaker.metrics.rejectedRequests > 0)
+      .forEach(breaker => console.log(
+        `   ${breaker.state === 'OPEN' ? '🔴' : '🟡'} ${breaker.key} [${breaker.registry}] ${breaker.state} - ` +
+        `${breaker.metrics.failedRequests}/${breaker.metrics.totalRequests} failed, ${breaker.metrics.rejectedRequests} rejected`
+      ));
+  }
+
+  // Outcomes of cached GET requests; undefined when no client had ApiClientConfig.cache on
+  private getCacheSummary() {
+    const { hit, revalidated, miss } = this.cacheOutcomes;
+    const lookups = hit + revalidated + miss;
+    if (lookups === 0) {
+      return undefined;
+    }
+
+    return { hits: hit, revalidated, misses: miss, hitRate: Math.round(((hit + revalidated) / lookups) * 100) };
+  }
+
   private getApiCallDistribution(): Record<string, number> {
     const distribution: Record<string, number> = {};
 
@@ -236,6 +452,67 @@ export default class CustomApiTestReporter implements Reporter {
     return distribution;
   }
 
+  // Missing statuses are calls that ended without a response
+  private getStatusDistribution(): Record<string, number> {
+    const distribution: Record<string, number> = {};
+
+    this.requestRecords.forEach(r => {
+      const status = r.status === undefined ? 'no response' : String(r.status);
+      distribution[status] = (distribution[status] || 0) + 1;
+    });
+
+    return distribution;
+  }
+
+  private getDurationDistribution(): Record<string, number> {
+    const distribution: Record<string, number> = {};
+
+    this.requestRecords.forEach(r => {
+      const range = this.getDurationRange(r.duration);
+      distribution[range] = (distribution[range] || 0) + 1;
+    });
+
+    return distribution;
+  }
+
+  private getDurationRange(duration: number): string {
+    if (duration < 100) return '<100ms';
+    if (duration < 500) return '100-499ms';
+    if (duration < 1000) return '500-999ms';
+    if (duration < 3000) return '1-3s';
+    return '3s+';
+  }
+
+  // Per method and endpoint template, slowest average first
+  private getEndpointStats(): EndpointStats[] {
+    const byEndpoint = new Map<string, RequestRecord[]>();
+
+    this.requestRecords.forEach(r => {
+      const key = `${r.method} ${r.endpoint}`;
+      byEndpoint.set(key, [...(byEndpoint.get(key) || []), r]);
+    });
+
+    return Array.from(byEndpoint.entries())
+      .map(([endpoint, records]) => {
+        const durations = records.map(r => r.duration).sort((a, b) => a - b);
+        const sized = records.filter(r => r.responseSize !== undefined);
+
+        return {
+          endpoint,
+          calls: records.length,
+          failures: records.filter(r => r.status === undefined || r.status >= 400).length,
+          averageDuration: Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length),
+          p95Duration: durations[Math.min(durations.length - 1, Math.ceil(durations.length * 0.95) - 1)],
+          maxDuration: durations[durations.length - 1],
+          retries: records.reduce((sum, r) => sum + (r.retries || 0), 0),
+          averageResponseSize: sized.length
+            ? Math.round(sized.reduce((sum, r) => sum + r.responseSize!, 0) / sized.length)
+            : 0
+        };
+      })
+      .sort((a, b) => b.averageDuration - a.averageDuration);
+  }
+
   private getApiCallRange(calls: number): string {
     if (calls === 0) return '0 calls';
     if (calls <= 5) return '1-5 calls';
@@ -264,6 +541,10 @@ export default class CustomApiTestReporter implements Reporter {
         .test.skipped { border-left: 5px solid #ff9800; }
         .test-title { font-weight: bold; margin-bottom: 5px; }
         .test-details { color: #666; font-size: 14px; }
+        .logs { background: #f8f8f8; padding: 10px; overflow-x: auto; font-size: 12px; }
+        .endpoints table { border-collapse: collapse; width: 100%; }
+        .endpoints th, .endpoints td { border: 1px solid #ddd; padding: 8px; text-align: right; }
+        .endpoints td.endpoint { text-align: left; font-family: monospace; }
     </style>
 </head>
 <body>
@@ -271,6 +552,7 @@ export default class CustomApiTestReporter implements Reporter {
         <h1>🧪 API Test Report</h1>
         <p>Generated on: ${new Date().toLocaleString()}</p>
         <p>Environment: ${process.env.NODE_ENV || 'development'}</p>
+        <p><a href="api-coverage.html">API coverage matrix</a></p>
     </div>
 
     <div class="summary">
@@ -292,6 +574,24 @@ export default class CustomApiTestReporter implements Reporter {
         </div>
     </div>
 
+    <div class="endpoints">
+        <h2>Slowest Endpoints</h2>
+        <table>
+            <tr><th>Endpoint</th><th>Calls</th><th>Failures</th><th>Avg</th><th>p95</th><th>Max</th><th>Retries</th><th>Avg Size</th></tr>
+            ${this.getEndpointStats().slice(0, 10).map(stats => `
+            <tr>
+                <td class="endpoint">${stats.endpoint}</td>
+                <td>${stats.calls}</td>
+                <td>${stats.failures}</td>
+                <td>${stats.averageDuration}ms</td>
+                <td>${stats.p95Duration}ms</td>
+                <td>${stats.maxDuration}ms</td>
+                <td>${stats.retries}</td>
+                <td>${stats.averageResponseSize}B</td>
+            </tr>`).join('')}
+        </table>
+    </div>
+
     <div class="tests">
         <h2>Test Results</h2>
         ${this.testResults.map(r => `
@@ -301,8 +601,10 @@ export default class CustomApiTestReporter implements Reporter {
                     Status: ${r.result.status} |
                     Duration: ${r.duration}ms |
                     API Calls: ${r.apiCalls || 0}
+                    ${r.har ? ` | <a href="${r.har}">HAR</a>` : ''}
                     ${r.errors && r.errors.length > 0 ? `<br>Error: ${r.errors[0]}` : ''}
                 </div>
+                ${r.logs ? `<details><summary>Logs (${r.logs.length} lines)</summary><pre class="logs">${escapeHtml(r.logs.join('\n'))}</pre></details>` : ''}
             </div>
         `).join('')}
     </div>
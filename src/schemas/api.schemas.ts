@@ -0,0 +1,147 @@
+import { JsonSchema } from '@/types';
+
+// Response contracts for the reqres.in endpoints, one per client method.
+// Records served by the API are closed (additionalProperties: false) so renamed or new fields are caught;
+// envelopes and echoed request bodies stay open because reqres.in adds metadata and returns whatever was sent.
+
+const isoTimestamp: JsonSchema = { type: 'string', format: 'date-time' };
+
+export const supportSchema: JsonSchema = {
+  title: 'Support',
+  type: 'object',
+  required: ['url', 'text'],
+  properties: {
+    url: { type: 'string', format: 'uri' },
+    text: { type: 'string' }
+  }
+};
+
+export const userSchema: JsonSchema = {
+  title: 'User',
+  type: 'object',
+  required: ['id', 'email', 'first_name', 'last_name', 'avatar'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    email: { type: 'string', format: 'email' },
+    first_name: { type: 'string', minLength: 1 },
+    last_name: { type: 'string', minLength: 1 },
+    avatar: { type: 'string', format: 'uri' }
+  }
+};
+
+export const resourceSchema: JsonSchema = {
+  title: 'Resource',
+  type: 'object',
+  required: ['id', 'name', 'year', 'color', 'pantone_value'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    name: { type: 'string', minLength: 1 },
+    year: { type: 'integer', minimum: 1900 },
+    color: { type: 'string', format: 'hex-color' },
+    pantone_value: { type: 'string', pattern: '^\\d{2}-\\d{4}$' }
+  }
+};
+
+const paginated = (title: string, item: JsonSchema): JsonSchema => ({
+  title,
+  type: 'object',
+  required: ['page', 'per_page', 'total', 'total_pages', 'data'],
+  properties: {
+    page: { type: 'integer', minimum: 1 },
+    per_page: { type: 'integer', minimum: 1 },
+    total: { type: 'integer', minimum: 0 },
+    total_pages: { type: 'integer', minimum: 0 },
+    data: { type: 'array', items: item },
+    support: supportSchema
+  }
+});
+
+const single = (title: string, item: JsonSchema): JsonSchema => ({
+  title,
+  type: 'object',
+  required: ['data'],
+  properties: {
+    data: item,
+    support: supportSchema
+  }
+});
+
+// reqres.in echoes the request body and adds the generated id as a string
+const created = (title: string, fields: Record<string, JsonSchema>): JsonSchema => ({
+  title,
+  type: 'object',
+  required: ['id', 'createdAt'],
+  additionalProperties: true,
+  properties: {
+    ...fields,
+    id: { type: 'string', minLength: 1 },
+    createdAt: isoTimestamp
+  }
+});
+
+const updated = (title: string, fields: Record<string, JsonSchema>): JsonSchema => ({
+  title,
+  type: 'object',
+  required: ['updatedAt'],
+  additionalProperties: true,
+  properties: {
+    ...fields,
+    updatedAt: isoTimestamp
+  }
+});
+
+const userFields: Record<string, JsonSchema> = {
+  name: { type: 'string' },
+  job: { type: 'string' }
+};
+
+const resourceFields: Record<string, JsonSchema> = {
+  name: { type: 'string' },
+  year: { type: 'integer' },
+  color: { type: 'string', format: 'hex-color' },
+  pantone_value: { type: 'string' }
+};
+
+export const paginationSchema = paginated('PaginatedResponse', {});
+
+export const userListResponseSchema = paginated('UserListResponse', userSchema);
+export const singleUserResponseSchema = single('SingleUserResponse', userSchema);
+export const createUserResponseSchema = created('CreateUserResponse', userFields);
+export const updateUserResponseSchema = updated('UpdateUserResponse', userFields);
+
+export const resourceListResponseSchema = paginated('ResourceListResponse', resourceSchema);
+export const singleResourceResponseSchema = single('SingleResourceResponse', resourceSchema);
+export const createResourceResponseSchema = created('CreateResourceResponse', resourceFields);
+export const updateResourceResponseSchema = updated('UpdateResourceResponse', resourceFields);
+
+export const loginResponseSchema: JsonSchema = {
+  title: 'LoginResponse',
+  type: 'object',
+  required: ['token'],
+  additionalProperties: false,
+  properties: {
+    token: { type: 'string', minLength: 1 }
+  }
+};
+
+export const registerResponseSchema: JsonSchema = {
+  title: 'RegisterResponse',
+  type: 'object',
+  required: ['id', 'token'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    token: { type: 'string', minLength: 1 }
+  }
+};
+
+export const errorResponseSchema: JsonSchema = {
+  title: 'ErrorResponse',
+  type: 'object',
+  required: ['error'],
+  properties: {
+    error: { type: 'string', minLength: 1 }
+  }
+};
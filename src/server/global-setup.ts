@@ -0,0 +1,31 @@
+import { FullConfig } from '@playwright/test';
+import { getEnvironmentConfig } from '@/config';
+import { Logger } from '@/utils/logger';
+import { ReqresServer } from './reqres.server';
+
+// Starts the local reqres server for the `local` environment and returns its teardown
+export default async function globalSetup(_config: FullConfig): Promise<(() => Promise<void>) | undefined> {
+  const envConfig = getEnvironmentConfig();
+  const logger = new Logger('GlobalSetup');
+
+  if (envConfig.name !== 'local' || process.env.LOCAL_SERVER === 'false') {
+    return undefined;
+  }
+
+  const baseURL = new URL(envConfig.baseURL);
+  const server = new ReqresServer({ port: Number(baseURL.port) || 80 });
+
+  try {
+    await server.start();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EADDRINUSE') {
+      logger.warn('Port already in use, running against the existing server', { baseURL: envConfig.baseURL });
+      return undefined;
+    }
+    throw error;
+  }
+
+  return async () => {
+    await server.stop();
+  };
+}
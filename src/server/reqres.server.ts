@@ -0,0 +1,173 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from 'http';
+import { AddressInfo } from 'net';
+import { HttpMethod, MockHandler, MockRequest, MockResponse, MockRoute } from '@/types';
+import { MockServer } from '@/core/mock-server';
+import { reqresMockRoutes, reqresSupport } from '@/fixtures';
+import { Logger } from '@/utils/logger';
+
+export interface ReqresServerConfig {
+  port?: number; // 0 picks a free port
+  host?: string; // all interfaces when omitted
+}
+
+interface StoredRecord {
+  id: number;
+  [key: string]: any;
+}
+
+const COLLECTIONS = ['users', 'unknown'];
+
+// Stand-in for reqres.in serving the same routes as mock mode over HTTP.
+// Records created through POST persist in memory and can be read, updated and deleted by id;
+// the seeded reqres.in data stays read-only so parallel specs always see the same pages.
+export class ReqresServer {
+  private config: ReqresServerConfig;
+  private logger: Logger;
+  private mockServer: MockServer;
+  private server?: Server;
+  private records: Map<string, Map<number, StoredRecord>>;
+  private nextId = 1000;
+
+  constructor(config: ReqresServerConfig = {}) {
+    this.config = { port: 3000, ...config };
+    this.logger = new Logger('ReqresServer');
+    this.records = new Map(COLLECTIONS.map(collection => [collection, new Map()]));
+    this.mockServer = new MockServer({ responses: new Map(Object.entries(this.createPersistentRoutes())) });
+  }
+
+  // Resolves with the base URL once the server is listening
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.getUrl();
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.logger.error('Failed to handle request', { method: req.method, url: req.url, error: error.message });
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Internal Server Error' }));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.logger.info('Local reqres server started', { url: this.getUrl() });
+    return this.getUrl();
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    this.logger.info('Local reqres server stopped');
+  }
+
+  getUrl(): string {
+    if (!this.server) {
+      throw new Error('Local reqres server is not running');
+    }
+
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.config.host || 'localhost'}:${port}`;
+  }
+
+  // Drops every record created since start
+  reset(): void {
+    this.records.forEach(records => records.clear());
+    this.nextId = 1000;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = await this.readBody(req);
+    const response = await this.mockServer.handle(req.method as HttpMethod, `http://localhost${req.url}`, {
+      data: body,
+      headers: req.headers as Record<string, string>
+    });
+
+    // Over HTTP this is a real server, so the marker MockServer adds for mock mode is not sent
+    const headers = { ...response.headers() };
+    delete headers['x-mock-response'];
+    res.writeHead(response.status(), headers);
+    res.end(await response.body());
+  }
+
+  private async readBody(req: IncomingMessage): Promise<any> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf-8');
+    if (!text) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  // Wraps the stateless reqres routes so created records are stored and served back
+  private createPersistentRoutes(): Record<string, MockRoute> {
+    const routes: Record<string, MockRoute> = {};
+
+    for (const collection of COLLECTIONS) {
+      const records = this.records.get(collection)!;
+      const base = (method: string, path: string) => reqresMockRoutes[`${method} /api/${collection}${path}`] as MockHandler;
+      const find = (request: MockRequest) => records.get(Number(request.params.id));
+
+      routes[`POST /api/${collection}`] = request => {
+        const response = base('POST', '')(request);
+        const id = this.nextId++;
+
+        records.set(id, { ...response.data, id });
+        return { ...response, data: { ...response.data, id: String(id) } };
+      };
+
+      routes[`GET /api/${collection}/:id`] = request => {
+        const response = base('GET', '/:id')(request);
+        const record = find(request);
+        return record ? { ...response, status: 200, data: { data: record, support: reqresSupport } } : response;
+      };
+
+      const update = (replace: boolean): MockHandler => request => {
+        const response: MockResponse = base(replace ? 'PUT' : 'PATCH', '/:id')(request);
+        const record = find(request);
+
+        if (record) {
+          const { updatedAt } = response.data;
+          records.set(record.id, replace
+            ? { ...request.body, id: record.id, createdAt: record.createdAt, updatedAt }
+            : { ...record, ...request.body, id: record.id, updatedAt });
+        }
+        return response;
+      };
+      routes[`PUT /api/${collection}/:id`] = update(true);
+      routes[`PATCH /api/${collection}/:id`] = update(false);
+
+      routes[`DELETE /api/${collection}/:id`] = request => {
+        const record = find(request);
+        if (record) {
+          records.delete(record.id);
+        }
+        return base('DELETE', '/:id')(request);
+      };
+    }
+
+    return routes;
+  }
+}
@@ -0,0 +1,72 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory } from '@/clients';
+import { ManualClock } from '@/utils/clock';
+import { RateLimiter } from '@/utils/rate-limiter';
+
+test.describe('C4. Advanced Testing - Client-Side Rate Limiting', () => {
+  test('TC-ADV-06: Sliding Window Rate Limiter Queues Requests Beyond the Quota', async ({
+    logger
+  }) => {
+    logger.info('Testing rate limiter quota enforcement with a manual clock');
+
+    const clock = new ManualClock(0);
+    const rateLimiter = new RateLimiter({ requests: 2, window: 1000 }, clock);
+
+    // Step 1: Requests within the quota are granted immediately
+    expect(await rateLimiter.acquire()).toBe(0);
+    expect(await rateLimiter.acquire()).toBe(0);
+    expect(rateLimiter.getAvailableSlots()).toBe(0);
+
+    // Step 2: Requests over the quota queue until the window slides
+    const grantOrder: number[] = [];
+    const third = rateLimiter.acquire().then(waited => { grantOrder.push(3); return waited; });
+    const fourth = rateLimiter.acquire().then(waited => { grantOrder.push(4); return waited; });
+
+    await clock.advance(500);
+    expect(grantOrder).toEqual([]);
+    expect(rateLimiter.getMetrics().queuedRequests).toBe(2);
+
+    await clock.advance(500);
+    expect(await third).toBe(1000);
+    expect(await fourth).toBe(1000);
+    expect(grantOrder).toEqual([3, 4]);
+
+    // Step 3: Wait-time metrics reflect the throttled requests
+    const metrics = rateLimiter.getMetrics();
+    expect(metrics.totalRequests).toBe(4);
+    expect(metrics.throttledRequests).toBe(2);
+    expect(metrics.queuedRequests).toBe(0);
+    expect(metrics.maxWaitTime).toBe(1000);
+    expect(metrics.averageWaitTime).toBe(1000);
+
+    logger.info('Rate limiter quota enforcement verified', { metrics });
+  });
+
+  test('TC-ADV-07: Clients From the Same Factory Share One Rate Limit', async ({
+    request,
+    logger
+  }) => {
+    logger.info('Testing rate limiter sharing across factory clients');
+
+    // Nothing listens on port 9, so requests fail fast after passing through the limiter
+    const factory = new ApiClientFactory(request, {
+      baseURL: 'http://127.0.0.1:9',
+      retries: 0,
+      rateLimit: { requests: 5, window: 60000 },
+      mock: false
+    });
+    const { userClient, authClient, resourceClient } = factory.createAllClients();
+
+    await expect(userClient.getUsers()).rejects.toThrow();
+    await expect(resourceClient.getResources()).rejects.toThrow();
+
+    expect(factory.getRateLimiterMetrics()?.totalRequests).toBe(2);
+    expect(authClient.getRateLimiterMetrics()?.totalRequests).toBe(2);
+
+    const unlimitedFactory = new ApiClientFactory(request, { rateLimit: undefined });
+    expect(unlimitedFactory.createUserClient().getRateLimiterMetrics()).toBeUndefined();
+
+    logger.info('Rate limiter sharing verified');
+  });
+});
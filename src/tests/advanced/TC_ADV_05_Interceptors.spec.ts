@@ -0,0 +1,77 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory, ApiError, ApiInterceptor } from '@/clients';
+
+test.describe('C4. Advanced Testing - Request Interceptors', () => {
+  test('TC-ADV-08: Factory Interceptors Run In Order And Can Short-Circuit Requests', async ({
+    request,
+    logger
+  }) => {
+    logger.info('Testing interceptor ordering and short-circuiting');
+
+    const calls: string[] = [];
+    const tracing: ApiInterceptor = {
+      name: 'tracing',
+      onRequest: prepared => {
+        calls.push('tracing:request');
+        return { ...prepared, headers: { ...prepared.headers, 'X-Trace': 'on' } };
+      },
+      onResponse: response => {
+        calls.push('tracing:response');
+        return { ...response, headers: { ...response.headers, 'x-traced': 'true' } };
+      }
+    };
+    const stub: ApiInterceptor = {
+      name: 'stub',
+      onRequest: prepared => {
+        calls.push('stub:request');
+        expect(prepared.headers['X-Trace']).toBe('on');
+
+        if (prepared.config.url === '/api/users/2') {
+          return {
+            response: { data: { data: { id: 2 } }, status: 200, statusText: 'OK', headers: {}, config: prepared.config }
+          };
+        }
+        return undefined;
+      },
+      onResponse: () => {
+        calls.push('stub:response');
+      },
+      onError: (_error, prepared) => {
+        calls.push('stub:error');
+        if (prepared.config.url === '/api/users/3') {
+          return { data: { recovered: true }, status: 200, statusText: 'OK', headers: {}, config: prepared.config };
+        }
+        return undefined;
+      }
+    };
+
+    // Nothing listens on port 9, so any request that reaches the network fails
+    const factory = new ApiClientFactory(request, { baseURL: 'http://127.0.0.1:9', retries: 0, mock: false, contractCheck: false }, [tracing]);
+    factory.useInterceptor(stub);
+    const { userClient, resourceClient } = factory.createAllClients();
+
+    // Step 1: Chain is shared by every client from the factory
+    expect(userClient.getInterceptorNames()).toEqual(['auth', 'tracing', 'stub']);
+    expect(resourceClient.getInterceptorNames()).toEqual(['auth', 'tracing', 'stub']);
+
+    // Step 2: Short-circuited request never reaches the network; only onRequest hooks run
+    const shortCircuited = await userClient.getUser(2);
+    expect(shortCircuited.data.data.id).toBe(2);
+    expect(calls).toEqual(['tracing:request', 'stub:request']);
+
+    // Step 3: onError can recover a failed request, then onResponse runs last-to-first
+    calls.length = 0;
+    const recovered = await userClient.get('/api/users/3');
+    expect(recovered.data).toEqual({ recovered: true });
+    expect(recovered.headers['x-traced']).toBe('true');
+    expect(calls).toEqual(['tracing:request', 'stub:request', 'stub:error', 'stub:response', 'tracing:response']);
+
+    // Step 4: Unhandled errors still reach the caller
+    await expect(resourceClient.getResource(4)).rejects.not.toBeInstanceOf(ApiError);
+    expect(factory.removeInterceptor('stub')).toBe(true);
+    expect(resourceClient.getInterceptorNames()).toEqual(['auth', 'tracing']);
+
+    logger.info('Interceptor chain verified', { calls });
+  });
+});
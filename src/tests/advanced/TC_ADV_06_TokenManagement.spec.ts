@@ -0,0 +1,95 @@
+import { expect } from '@playwright/test';
+import { AddressInfo } from 'net';
+import { Server, createServer } from 'http';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory, ApiError } from '@/clients';
+
+test.describe('C4. Advanced Testing - Bearer Token Management', () => {
+  let server: Server;
+  let baseURL: string;
+  const expiredTokens = new Set<string>();
+  const receivedAuthorization: Array<string | undefined> = [];
+
+  // Minimal protected API: login issues a token, users require a bearer token that has not expired
+  test.beforeAll(async () => {
+    server = createServer((req, res) => {
+      const authorization = req.headers.authorization;
+      const token = authorization?.replace(/^Bearer\s+/, '');
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.url === '/api/login') {
+        res.end(JSON.stringify({ token: 'token-1' }));
+        return;
+      }
+
+      receivedAuthorization.push(authorization);
+
+      if (req.url === '/api/logout') {
+        res.end('{}');
+        return;
+      }
+
+      if (!token || expiredTokens.has(token)) {
+        res.statusCode = 401;
+        res.end(JSON.stringify({ error: 'Unauthorized' }));
+        return;
+      }
+
+      res.end(JSON.stringify({ data: { id: 2, email: 'janet.weaver@reqres.in' } }));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('TC-ADV-09: Factory Clients Share, Refresh and Clear the Session Token', async ({
+    request,
+    logger
+  }) => {
+    logger.info('Testing automatic bearer token management');
+
+    const factory = new ApiClientFactory(request, { baseURL, retries: 0, mock: false });
+    const { userClient, authClient } = factory.createAllClients();
+
+    // Step 1: Run as a user; the login token is attached to every client from the factory
+    const session = await factory.authenticateAs({ email: 'eve.holt@reqres.in', password: 'cityslicka' });
+    expect(session.token).toBe('token-1');
+    expect(authClient.getSession()?.email).toBe('eve.holt@reqres.in');
+
+    await userClient.getUser(2);
+    expect(receivedAuthorization.pop()).toBe('Bearer token-1');
+
+    // Step 2: A 401 refreshes the token once and replays the request
+    expiredTokens.add('token-1');
+    const replayed = await userClient.getUser(2);
+    expect(replayed.status).toBe(200);
+
+    const refreshedToken = factory.getSession()!.token;
+    expect(refreshedToken).toMatch(/^refreshed_/);
+    expect(factory.getSession()!.refreshedAt).toBeDefined();
+    expect(receivedAuthorization.splice(0)).toEqual(['Bearer token-1', `Bearer ${refreshedToken}`]);
+
+    // Step 3: Caller-supplied credentials are neither overridden nor refreshed
+    expiredTokens.add('caller-token');
+    await expect(
+      userClient.get('/api/users/2', undefined, { 'Authorization': 'Bearer caller-token' })
+    ).rejects.toThrow(ApiError);
+    expect(receivedAuthorization.splice(0)).toEqual(['Bearer caller-token']);
+    expect(factory.getSession()!.token).toBe(refreshedToken);
+
+    // Step 4: Logout sends the stored token and clears the session for every client
+    await authClient.logout();
+    expect(receivedAuthorization.pop()).toBe(`Bearer ${refreshedToken}`);
+    expect(factory.getSession()).toBeUndefined();
+
+    const anonymous = await userClient.getUser(2, { expectedStatus: [401] });
+    expect(anonymous.status).toBe(401);
+    expect(receivedAuthorization.pop()).toBeUndefined();
+
+    logger.info('Bearer token management verified');
+  });
+});
@@ -0,0 +1,105 @@
+import { expect } from '@playwright/test';
+import { AddressInfo } from 'net';
+import { Server, createServer } from 'http';
+import { ApiResponseValidator, test } from '@/helpers/test.helpers';
+import { ApiClientFactory, ApiError } from '@/clients';
+
+test.describe('C4. Advanced Testing - Request Timing', () => {
+  let server: Server;
+  let baseURL: string;
+  let requestCount = 0;
+
+  // Flaky endpoint: the first call to /api/users/2 fails with 503, /api/users/23 always returns 404
+  test.beforeAll(async () => {
+    server = createServer((req, res) => {
+      requestCount++;
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.url === '/api/users/2' && requestCount === 1) {
+        res.statusCode = 503;
+        res.end(JSON.stringify({ error: 'Service Unavailable' }));
+        return;
+      }
+
+      if (req.url === '/api/users/23') {
+        res.statusCode = 404;
+        res.end('{}');
+        return;
+      }
+
+      setTimeout(() => res.end(JSON.stringify({ data: { id: 2, email: 'janet.weaver@reqres.in' } })), 50);
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  test.afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('TC-ADV-10: Responses and Errors Carry Per-Attempt Timing', async ({
+    request,
+    requestRecorder,
+    logger
+  }) => {
+    logger.info('Testing per-request timing breakdown');
+
+    const factory = new ApiClientFactory(request, {
+      baseURL,
+      mock: false,
+      retries: 1,
+      retryDelay: 200,
+      retryPolicy: { jitter: 'none' }
+    });
+    const userClient = factory.createUserClient();
+
+    // Step 1: Retried request records both attempts; duration covers only the final HTTP call
+    const response = await userClient.getUser(2);
+    const timing = response.timing!;
+
+    expect(timing.retries).toBe(1);
+    expect(timing.attempts.map(attempt => attempt.status)).toEqual([503, 200]);
+    expect(timing.attempts[0].error).toContain('503');
+    expect(timing.duration).toBe(timing.attempts[1].duration);
+    expect(timing.duration).toBeGreaterThanOrEqual(50);
+    expect(timing.total).toBeGreaterThanOrEqual(timing.duration + 200);
+    expect(timing.size).toBe(Buffer.byteLength(JSON.stringify(response.data)));
+
+    // Step 2: SLA checks use the HTTP call time, not the retry backoff
+    const validator = new ApiResponseValidator();
+    expect(validator.validateResponseTime(response, timing.duration)).toBe(true);
+    expect(validator.validateResponseTime(timing.total, timing.duration)).toBe(false);
+
+    // Step 3: ApiError exposes the same timing data
+    const error = await userClient.getUser(23).catch(caught => caught);
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).timing?.retries).toBe(0);
+    expect((error as ApiError).timing?.attempts[0].status).toBe(404);
+    expect((error as ApiError).timing?.size).toBe(2);
+
+    // Step 4: The records handed to the reporter carry the same timing, retries and sizes
+    const userData = { name: 'neo', job: 'the one' };
+    await userClient.createUser(userData);
+
+    const [retried, missing, created] = requestRecorder.getRecords();
+    expect(retried).toMatchObject({
+      method: 'GET',
+      endpoint: '/api/users/{id}',
+      status: 200,
+      duration: timing.duration,
+      total: timing.total,
+      retries: 1,
+      requestSize: 0,
+      responseSize: timing.size
+    });
+    expect(missing).toMatchObject({ status: 404, retries: 0, responseSize: 2 });
+    expect(created).toMatchObject({
+      method: 'POST',
+      endpoint: '/api/users',
+      requestSize: Buffer.byteLength(JSON.stringify(userData))
+    });
+
+    logger.info('Request timing verified', { timing });
+  });
+});
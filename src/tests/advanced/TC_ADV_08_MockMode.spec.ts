@@ -0,0 +1,62 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { mockErrorResponses, mockSingleUserResponse } from '@/fixtures';
+
+test.describe('C4. Advanced Testing - Offline Mock Mode', () => {
+  test.use({ mockApi: true });
+
+  test('TC-ADV-11: Mock Server Answers Client Requests From Registered Routes', async ({
+    apiClients,
+    mockServer,
+    logger
+  }) => {
+    logger.info('Testing mock mode routing, delays and unmatched request reporting');
+
+    expect(mockServer).toBeDefined();
+
+    // Step 1: Default routes emulate reqres.in from the api-responses fixtures, including pagination
+    expect((await apiClients.userClient.getUser(2)).data).toEqual(mockSingleUserResponse.data);
+
+    const usersPage = await apiClients.userClient.getUsers({ page: 2 });
+    expect(usersPage.headers['x-mock-response']).toBe('true');
+    expect(usersPage.data.page).toBe(2);
+    expect(usersPage.data.data.map((user: any) => user.id)).toEqual([7, 8, 9, 10, 11, 12]);
+
+    const created = await apiClients.userClient.createUser({ name: 'morpheus', job: 'leader' });
+    expect(created.status).toBe(201);
+    expect(created.data.name).toBe('morpheus');
+
+    // Step 2: Per-test routes override defaults; the most specific pattern wins
+    mockServer!
+      .register('GET /api/users/:id', mockErrorResponses.serviceUnavailable)
+      .register('GET /api/users/2', { ...mockSingleUserResponse, headers: { 'X-Served-By': 'fixture' }, delay: 100 });
+
+    const janet = await apiClients.userClient.getUser(2);
+    expect(janet.data.data.email).toBe('janet.weaver@reqres.in');
+    expect(janet.headers['x-served-by']).toBe('fixture');
+    expect(janet.timing!.duration).toBeGreaterThanOrEqual(100);
+
+    const unavailable = await apiClients.userClient.getUser(3, { expectedStatus: [503] });
+    expect(unavailable.status).toBe(503);
+
+    // Step 3: Handlers build responses from the request
+    mockServer!.register('POST /api/unknown', request => ({
+      status: 422,
+      data: { error: `Unsupported color ${request.body.color}` }
+    }));
+    await expect(apiClients.resourceClient.createResource({
+      name: 'mock', year: 2024, color: '#000000', pantone_value: '19-0000'
+    })).rejects.toThrow('Unsupported color #000000');
+
+    // Step 4: Delays longer than the request timeout time out like a live request
+    mockServer!.register('GET /api/unknown', { status: 200, data: {}, delay: 500 });
+    await expect(apiClients.resourceClient.getResources(undefined, { timeout: 100 })).rejects.toThrow('Timeout 100ms exceeded');
+
+    // Step 5: Requests without a route get 501 and are reported
+    const unmatched = await apiClients.userClient.get('/api/colors', undefined, undefined, { throwOnHttpError: false });
+    expect(unmatched.status).toBe(501);
+    expect(mockServer!.getUnmatchedRequests().map(request => request.path)).toEqual(['/api/colors']);
+
+    logger.info('Mock mode verified', { served: mockServer!.getServedCount() });
+  });
+});
@@ -0,0 +1,73 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory } from '@/clients';
+import { ReqresServer } from '@/server/reqres.server';
+
+test.describe('C4. Advanced Testing - Local Reqres Server', () => {
+  const server = new ReqresServer({ port: 0, host: '127.0.0.1' });
+  let baseURL: string;
+
+  test.beforeAll(async () => {
+    baseURL = await server.start();
+  });
+
+  test.afterAll(async () => {
+    await server.stop();
+  });
+
+  test('TC-ADV-12: Local Server Emulates reqres.in With In-Memory Persistence', async ({
+    request,
+    logger
+  }) => {
+    logger.info('Testing the local reqres stand-in server', { baseURL });
+
+    const factory = new ApiClientFactory(request, { baseURL, retries: 0, mock: false });
+    const { userClient, authClient, resourceClient } = factory.createAllClients();
+
+    // Step 1: Pagination over the seeded reqres.in data
+    const secondPage = await userClient.getUsers({ page: 2, per_page: 4 });
+    expect(secondPage.data).toMatchObject({ page: 2, per_page: 4, total: 12, total_pages: 3 });
+    expect(secondPage.data.data.map((user: any) => user.id)).toEqual([5, 6, 7, 8]);
+    expect(secondPage.headers).not.toHaveProperty('x-mock-response');
+
+    // Step 2: Created records persist until deleted; seeded records stay read-only
+    const created = await userClient.createUser({ name: 'morpheus', job: 'leader' });
+    const createdId = Number(created.data.id);
+
+    await userClient.patchUser(createdId, { job: 'zion resident' });
+    const stored = await userClient.getUser(createdId);
+    expect(stored.data.data).toMatchObject({ id: createdId, name: 'morpheus', job: 'zion resident' });
+
+    await userClient.deleteUser(createdId);
+    expect(await userClient.userExists(createdId)).toBe(false);
+
+    await userClient.deleteUser(2);
+    expect(await userClient.userExists(2)).toBe(true);
+
+    const resource = await resourceClient.createResource({
+      name: 'local', year: 2024, color: '#123456', pantone_value: '12-3456'
+    });
+    expect((await resourceClient.getResource(Number(resource.data.id))).data.data.name).toBe('local');
+
+    // Step 3: Login and register follow the reqres.in rules
+    const login = await authClient.login({ email: 'eve.holt@reqres.in', password: 'cityslicka' });
+    expect(login.data.token).toBeDefined();
+
+    const unknownUser = await authClient.register(
+      { email: 'nobody@example.com', password: 'secret123' },
+      { expectedStatus: [400] }
+    );
+    expect(unknownUser.data).toHaveProperty('error', 'Note: Only defined users succeed registration');
+
+    const missingPassword = await authClient.post('/api/login', { email: 'eve.holt@reqres.in' }, undefined, {
+      expectedStatus: [400]
+    });
+    expect(missingPassword.data).toEqual({ error: 'Missing password' });
+
+    // Step 4: The delay query parameter holds the response
+    const delayed = await userClient.getUsersWithDelay(1);
+    expect(delayed.timing!.duration).toBeGreaterThanOrEqual(1000);
+
+    logger.info('Local reqres server verified');
+  });
+});
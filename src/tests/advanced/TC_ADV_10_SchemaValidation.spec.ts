@@ -0,0 +1,69 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory, SchemaValidationError } from '@/clients';
+import { reqresSupport } from '@/fixtures';
+
+test.describe('C4. Advanced Testing - Response Schema Validation', () => {
+  test('TC-ADV-13: Client Methods Enforce Their Declared Response Schemas', async ({
+    request,
+    logger
+  }) => {
+    logger.info('Testing opt-in response schema enforcement');
+
+    const factory = new ApiClientFactory(request, { mock: true, validateSchemas: true, retries: 0 });
+    const { userClient, authClient, resourceClient } = factory.createAllClients();
+
+    // Step 1: Every reqres.in response matches the schema its client method declares
+    await userClient.getUsers({ page: 2 });
+    await userClient.getUser(2);
+    await userClient.createUser({ name: 'morpheus', job: 'leader' });
+    await userClient.updateUser(2, { name: 'morpheus', job: 'zion resident' });
+    await userClient.patchUser(2, { job: 'zion resident' });
+    await resourceClient.getResources();
+    await resourceClient.getResource(2);
+    await resourceClient.createResource({ name: 'cerulean', year: 2000, color: '#98B2D1', pantone_value: '15-4020' });
+    await authClient.register({ email: 'eve.holt@reqres.in', password: 'pistol' });
+    await authClient.login({ email: 'eve.holt@reqres.in', password: 'cityslicka' });
+
+    // Step 2: A drifted payload is rejected with one diff entry per broken field
+    factory.getMockServer()!.register('GET /api/users/2', {
+      status: 200,
+      data: {
+        data: { id: '2', email: 'janet.weaver', first_name: 'Janet', avatar: '/img/faces/2-image.jpg', role: 'admin' },
+        support: reqresSupport
+      }
+    });
+
+    const error = await userClient.getUser(2).catch(caught => caught);
+    expect(error).toBeInstanceOf(SchemaValidationError);
+
+    const schemaError = error as SchemaValidationError;
+    expect(schemaError.schemaName).toBe('SingleUserResponse');
+    expect(schemaError.issues.map(issue => `${issue.path} ${issue.keyword}`)).toEqual([
+      '$.data.last_name required',
+      '$.data.id type',
+      '$.data.email format',
+      '$.data.avatar format',
+      '$.data.role additionalProperties'
+    ]);
+    expect(schemaError.message).toContain('  at $.data.id (type)\n    - expected: integer\n    + received: "2" (string)');
+
+    // Step 3: Enforcement can be switched off per call, and error statuses have no contract
+    const unchecked = await userClient.getUser(2, { validateSchema: false });
+    expect(unchecked.data.data).toHaveProperty('role', 'admin');
+
+    const missing = await userClient.getUser(23, { expectedStatus: [404] });
+    expect(missing.status).toBe(404);
+
+    // Step 4: Without enforcement the same check is available on demand
+    const lenientClient = new ApiClientFactory(request, { mock: true, retries: 0 }).createUserClient();
+    const created = await lenientClient.createUser({ name: 'neo', job: 'the one' });
+    expect(lenientClient.validateResponseSchema(created).valid).toBe(true);
+
+    const mismatch = lenientClient.validateResponseSchema(created, (await lenientClient.getUsers()).config.responseSchema);
+    expect(mismatch.valid).toBe(false);
+    expect(mismatch.issues.map(issue => issue.path)).toContain('$.page');
+
+    logger.info('Response schema enforcement verified');
+  });
+});
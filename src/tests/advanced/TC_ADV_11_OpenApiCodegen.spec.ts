@@ -0,0 +1,67 @@
+import { expect } from '@playwright/test';
+import * as fs from 'fs';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory } from '@/clients';
+import { AuthApiClient, UsersApiClient } from '@/generated';
+import { DEFAULT_OUTPUT_DIR, findStaleFiles } from '@/openapi/cli';
+import { OpenApiCodeGenerator } from '@/openapi/code-generator';
+import { loadOpenApiDocument } from '@/openapi/openapi-document';
+import { OpenApiTypeChecker } from '@/openapi/type-checker';
+
+test.describe('C4. Advanced Testing - OpenAPI Code Generation', () => {
+  test('TC-ADV-14: Generated Types and Clients Stay In Sync With the OpenAPI Document', async ({
+    request,
+    logger
+  }, testInfo) => {
+    logger.info('Testing OpenAPI type generation and drift checks');
+
+    const document = loadOpenApiDocument();
+
+    // Step 1: The committed output matches what the spec generates
+    expect(findStaleFiles(new OpenApiCodeGenerator(document), DEFAULT_OUTPUT_DIR)).toEqual([]);
+
+    // Step 2: The hand-written types have no breaking drift from the spec
+    const drifts = new OpenApiTypeChecker(document).check();
+    expect(drifts.filter(drift => drift.severity === 'error')).toEqual([]);
+    expect(drifts).toContainEqual({
+      severity: 'warning',
+      path: 'User.id',
+      message: 'always present per the spec but optional in the types'
+    });
+
+    // Step 3: Check mode flags types that disagree with the spec
+    const driftedTypes = testInfo.outputPath('drifted.types.ts');
+    fs.writeFileSync(driftedTypes, [
+      'export interface User { id: string; email: string; first_name: string; last_name: string; avatar: string }',
+      'export interface CreateUserResponse { name: string; job: string; id: number; createdAt: string; status: string }',
+      'export interface SingleUserResponse { data: User }'
+    ].join('\n'));
+
+    const flagged = new OpenApiTypeChecker(document, driftedTypes).check();
+    expect(flagged.map(drift => `${drift.severity} ${drift.path}: ${drift.message}`)).toEqual([
+      'error User.id: spec says integer, types say string',
+      'error CreateUserResponse.id: spec says string, types say number',
+      'error CreateUserResponse.status: not in the spec',
+      'error SingleUserResponse.support: declared in the spec but missing from the types'
+    ]);
+
+    // Step 4: Generated clients run through BaseApiClient and validate against the generated schemas
+    const factory = new ApiClientFactory(request, { mock: true, validateSchemas: true, retries: 0 });
+    const users = factory.createClient(UsersApiClient);
+    const auth = factory.createClient(AuthApiClient);
+
+    const page = await users.listUsers({ page: 2, per_page: 3 });
+    expect(page.data.data.map(user => user.id)).toEqual([4, 5, 6]);
+
+    const created = await users.createUser({ name: 'morpheus', job: 'leader' });
+    expect(typeof created.data.id).toBe('string');
+
+    const missing = await users.getUser(23, { expectedStatus: [404] });
+    expect(missing.status).toBe(404);
+
+    const login = await auth.login({ email: 'eve.holt@reqres.in', password: 'cityslicka' });
+    expect(login.data.token).toBe('QpwL5tke4Pnpja7X4');
+
+    logger.info('OpenAPI code generation verified', { warnings: drifts.length });
+  });
+});
@@ -0,0 +1,123 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory, BaseApiClient } from '@/clients';
+import { reqresSupport } from '@/fixtures';
+import { OperationConformance, mergeConformance } from '@/openapi/contract-checker';
+import { ApiResponse, CreateUserRequest, QueryParams } from '@/types';
+
+// Calls an endpoint the OpenAPI document does not describe
+class LegacyColorsClient extends BaseApiClient {
+  async getColors(): Promise<ApiResponse<{ colors: string[] }>> {
+    return this.get<{ colors: string[] }>('/api/colors');
+  }
+}
+
+test.describe('C4. Advanced Testing - OpenAPI Contract Testing', () => {
+  test('TC-ADV-15: Runtime Contract Checker Reports Drift Per Operation', async ({
+    request,
+    logger
+  }) => {
+    logger.info('Testing runtime OpenAPI contract checks');
+
+    const factory = new ApiClientFactory(request, { mock: true, contractCheck: true, retries: 0 });
+    const { userClient, authClient, resourceClient } = factory.createAllClients();
+    const checker = factory.getContractChecker()!;
+    expect(checker).toBeDefined();
+
+    // Step 1: Requests and responses that follow the spec record calls but no violations
+    await userClient.getUsers({ page: 2 });
+    await userClient.getUser(2);
+    await userClient.getUser(23, { expectedStatus: [404] });
+    await userClient.createUser({ name: 'morpheus', job: 'leader' });
+    await userClient.patchUser(2, { job: 'zion resident' });
+    await userClient.deleteUser(2);
+    await resourceClient.getResource(2);
+    await authClient.login({ email: 'eve.holt@reqres.in', password: 'cityslicka' });
+    await authClient.login({ email: 'unknown@reqres.in', password: 'secret' }).catch(() => undefined);
+
+    expect(checker.getViolations()).toEqual([]);
+    expect(checker.getReport().find(op => op.operation === 'GET /api/users/{id}')).toMatchObject({
+      operationId: 'getUser',
+      documented: true,
+      calls: 2,
+      statuses: { 200: 1, 404: 1 }
+    });
+    expect(checker.getReport().find(op => op.operation === 'POST /api/login')!.statuses).toEqual({ 200: 1, 400: 1 });
+
+    // Step 2: Off-spec requests from our own code are attributed to the request side
+    checker.reset();
+    await userClient.getUsers({ page: 0 });
+    const sortedQuery: QueryParams = { page: 1, sort: 'name' };
+    await userClient.getUsersWithDelay(0, sortedQuery);
+    await userClient.createUser({ name: 'neo', job: 'the one', role: 'admin' } as CreateUserRequest);
+
+    expect(checker.getViolations('request').map(({ operation, location }) => `${operation} ${location}`)).toEqual([
+      'GET /api/users query.page',
+      'GET /api/users query.sort',
+      'POST /api/users body $.role'
+    ]);
+
+    // Step 3: Undocumented fields and status codes from the API surface on the response side
+    checker.reset();
+    const mockServer = factory.getMockServer()!;
+    mockServer.register('GET /api/users/2', {
+      status: 200,
+      data: {
+        data: {
+          id: 2,
+          email: 'janet.weaver@reqres.in',
+          first_name: 'Janet',
+          last_name: 'Weaver',
+          avatar: 'https://reqres.in/img/faces/2-image.jpg',
+          role: 'admin'
+        },
+        support: reqresSupport
+      }
+    });
+    mockServer.register('DELETE /api/unknown/2', { status: 202, data: {} });
+
+    await userClient.getUser(2);
+    await userClient.getUser(2);
+    await resourceClient.deleteResource(2, { expectedStatus: [202] });
+
+    const violations = checker.getViolations('response');
+    expect(violations).toEqual([
+      {
+        operation: 'GET /api/users/{id}',
+        kind: 'response',
+        location: 'body $.data.role',
+        message: 'additionalProperties: expected no additional properties, received "admin" (string)',
+        count: 2
+      },
+      {
+        operation: 'DELETE /api/unknown/{id}',
+        kind: 'response',
+        location: 'status',
+        message: 'undocumented status 202 (documented: 204)',
+        count: 1
+      }
+    ]);
+
+    // Step 4: Endpoints missing from the spec are listed as undocumented operations
+    mockServer.register('GET /api/colors', { status: 200, data: { colors: ['#98B2D1'] } });
+    await factory.createClient(LegacyColorsClient).getColors();
+
+    expect(checker.getReport().find(op => op.operation === 'GET /api/colors')).toMatchObject({
+      documented: false,
+      calls: 1,
+      violations: []
+    });
+
+    // Step 5: Per-test records merge into one run-wide report, as the reporter does
+    const merged = new Map<string, OperationConformance>();
+    mergeConformance(merged, checker.getReport());
+    mergeConformance(merged, checker.getReport());
+    expect(merged.get('GET /api/users/{id}')).toMatchObject({ calls: 4, statuses: { 200: 4 } });
+    expect(merged.get('GET /api/users/{id}')!.violations[0].count).toBe(4);
+
+    // Step 6: Contract checks are off unless enabled
+    expect(new ApiClientFactory(request, { mock: true, contractCheck: false }).getContractChecker()).toBeUndefined();
+
+    logger.info('Runtime contract checks verified');
+  });
+});
@@ -0,0 +1,71 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory, endpointTemplate } from '@/clients';
+import { loadOpenApiDocument } from '@/openapi/openapi-document';
+import { NO_RESPONSE, buildCoverage, renderCoverageHtml } from '@/reporters/api-coverage';
+
+test.describe('C4. Advanced Testing - API Coverage', () => {
+  test('TC-ADV-16: Client Calls Feed an Endpoint x Method x Status Coverage Matrix', async ({
+    request,
+    requestRecorder,
+    logger
+  }) => {
+    logger.info('Testing request recording and coverage reporting');
+
+    // Step 1: Every client call is recorded with its path template, whichever factory built the client
+    const factory = new ApiClientFactory(request, { mock: true, retries: 0 });
+    const { userClient, resourceClient } = factory.createAllClients();
+    await userClient.getUsers({ page: 2 });
+    await userClient.getUser(2);
+    await userClient.getUser(23, { expectedStatus: [404] });
+    await userClient.createUser({ name: 'morpheus', job: 'leader' });
+    await resourceClient.getResource(3);
+
+    const offline = new ApiClientFactory(request, { baseURL: 'http://127.0.0.1:9', retries: 0, mock: false });
+    await offline.createUserClient().deleteUser(7).catch(() => undefined);
+
+    const records = requestRecorder.getRecords();
+    expect(records.map(({ method, endpoint, status }) => `${method} ${endpoint} ${status}`)).toEqual([
+      'GET /api/users 200',
+      'GET /api/users/{id} 200',
+      'GET /api/users/{id} 404',
+      'POST /api/users 201',
+      'GET /api/unknown/{id} 200',
+      'DELETE /api/users/{id} undefined'
+    ]);
+    expect(records[0].url).toBe(`${factory.getConfig().baseURL}/api/users`);
+    expect(records[5].error).toBeTruthy();
+    expect(endpointTemplate('/api/items/3f2b8c1e-9d4a-4e6b-8f7a-1c2d3e4f5a6b/tags')).toBe('/api/items/{id}/tags');
+
+    // Step 2: Without a spec the matrix lists the endpoints called and the statuses received
+    const plain = buildCoverage(records);
+    expect(plain.summary).toEqual({ endpoints: 5, calls: 6 });
+    expect(plain.entries.find(entry => entry.method === 'GET' && entry.endpoint === '/api/users/{id}')!.statuses).toEqual({
+      200: 1,
+      404: 1
+    });
+    expect(plain.entries.find(entry => entry.method === 'DELETE')!.statuses).toEqual({ [NO_RESPONSE]: 1 });
+
+    // Step 3: Against the OpenAPI document, uncalled operations and unseen documented statuses show up
+    const coverage = buildCoverage(records, loadOpenApiDocument(), 'openapi/reqres.openapi.json');
+    expect(coverage.summary).toMatchObject({ operations: 15, coveredOperations: 5, undocumentedEndpoints: 0 });
+    expect(coverage.entries.find(entry => entry.method === 'GET' && entry.endpoint === '/api/users/{id}')).toMatchObject({
+      operationId: 'getUser',
+      documented: true,
+      missingStatuses: []
+    });
+    expect(coverage.entries.find(entry => entry.method === 'GET' && entry.endpoint === '/api/unknown/{id}')!.missingStatuses)
+      .toEqual(['404']);
+    expect(coverage.entries.find(entry => entry.method === 'POST' && entry.endpoint === '/api/login')).toMatchObject({
+      calls: 0,
+      missingStatuses: ['200', '400']
+    });
+
+    // Step 4: The HTML matrix marks documented statuses no test received
+    const html = renderCoverageHtml(coverage);
+    expect(html).toContain('Measured against: openapi/reqres.openapi.json');
+    expect(html).toContain('<td class="missing">0</td>');
+
+    logger.info('Coverage reporting verified');
+  });
+});
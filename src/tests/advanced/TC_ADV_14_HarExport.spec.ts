@@ -0,0 +1,77 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory } from '@/clients';
+import { Redactor } from '@/utils/redaction';
+
+test.describe('C4. Advanced Testing - HAR Export', () => {
+  test('TC-ADV-17: Client Traffic Is Recorded as HAR With Secrets Masked', async ({
+    request,
+    harRecorder,
+    logger
+  }) => {
+    logger.info('Testing HAR recording and redaction');
+
+    const factory = new ApiClientFactory(request, {
+      mock: true,
+      recordHar: true,
+      retries: 0,
+      headers: { 'Content-Type': 'application/json', 'x-api-key': 'reqres-free-v1' }
+    });
+    const userClient = factory.createUserClient();
+
+    // Step 1: Each exchange is captured with headers, bodies and timings
+    const session = await factory.authenticateAs({ email: 'eve.holt@reqres.in', password: 'cityslicka' });
+    await userClient.getUsers({ page: 2 });
+    await userClient.createUser({ name: 'morpheus', job: 'leader' });
+
+    const [login, list, create] = harRecorder.getEntries();
+    expect(harRecorder.getEntries()).toHaveLength(3);
+    expect(list.request.url).toBe(`${factory.getConfig().baseURL}/api/users?page=2`);
+    expect(list.request.queryString).toEqual([{ name: 'page', value: '2' }]);
+    expect(list.response.status).toBe(200);
+    expect(list.response.content.size).toBeGreaterThan(0);
+    expect(JSON.parse(list.response.content.text!).page).toBe(2);
+    expect(list.time).toBeGreaterThanOrEqual(0);
+    expect(JSON.parse(create.request.postData!.text)).toEqual({ name: 'morpheus', job: 'leader' });
+    expect(create.response.status).toBe(201);
+
+    // Step 2: Credentials, tokens and auth headers never reach the HAR in clear text
+    expect(JSON.parse(login.request.postData!.text)).toEqual({ email: 'eve.holt@reqres.in', password: '[REDACTED]' });
+    expect(JSON.parse(login.response.content.text!)).toEqual({ token: '[REDACTED]' });
+    expect(login.request.headers).toContainEqual({ name: 'x-api-key', value: '[REDACTED]' });
+    expect(list.request.headers).toContainEqual({ name: 'Authorization', value: '[REDACTED]' });
+
+    const har = JSON.stringify(harRecorder.toHar());
+    expect(har).not.toContain('cityslicka');
+    expect(har).not.toContain(session.token);
+    expect(har).not.toContain('reqres-free-v1');
+
+    // Step 3: Requests that never got a response are kept with status 0 and the failure reason
+    const offline = new ApiClientFactory(request, { baseURL: 'http://127.0.0.1:9', retries: 0, mock: false, recordHar: true });
+    await offline.createAuthClient().login({ email: 'eve.holt@reqres.in', password: 'cityslicka' }).catch(() => undefined);
+
+    const failed = harRecorder.getEntries()[3];
+    expect(failed.response.status).toBe(0);
+    expect(failed._error).toBeTruthy();
+    expect(failed.request.postData!.text).not.toContain('cityslicka');
+
+    // Step 4: The policy can be extended, and matches keys in any case or separator style
+    const redactor = new Redactor({ fields: ['ssn'], headers: ['x-session'] });
+    expect(redactor.redact({ user: { SSN: '123-45-6789', refresh_token: 'abc', name: 'Neo' } })).toEqual({
+      user: { SSN: '[REDACTED]', refresh_token: '[REDACTED]', name: 'Neo' }
+    });
+    expect(redactor.redactHeaders({ 'X-Session': 'abc', Accept: 'application/json' })).toEqual({
+      'X-Session': '[REDACTED]',
+      Accept: 'application/json'
+    });
+    expect(redactor.redactUrl('https://reqres.in/api/users?page=2&token=abc')).toBe(
+      'https://reqres.in/api/users?page=2&token=%5BREDACTED%5D'
+    );
+
+    // Step 5: Nothing is recorded unless recordHar is on
+    await new ApiClientFactory(request, { mock: true, recordHar: false }).createUserClient().getUser(2);
+    expect(harRecorder.getEntries()).toHaveLength(4);
+
+    logger.info('HAR recording verified');
+  });
+});
@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory } from '@/clients';
+import { getLoggerConfig } from '@/config';
+import { EMAIL_PATTERN, Redactor } from '@/utils/redaction';
+
+test.describe('C4. Advanced Testing - Log Redaction', () => {
+  test('TC-ADV-18: Login Payloads and Secrets Never Reach the Log File Unmasked', async ({
+    request,
+    logger
+  }) => {
+    logger.info('Testing log redaction');
+
+    const logFile = getLoggerConfig().filename!;
+    const password = `s3cret-${Date.now()}`;
+    const apiKey = `key-${Date.now()}`;
+    const marker = `redaction-marker-${Date.now()}`;
+
+    // Only what this test writes is checked, not what earlier tests and runs left in the file
+    const startOffset = fs.existsSync(logFile) ? fs.statSync(logFile).size : 0;
+    const readWritten = () => fs.readFileSync(logFile).subarray(startOffset).toString('utf-8');
+
+    // Step 1: Log in through the client stack, including a failed attempt that logs the error
+    const factory = new ApiClientFactory(request, { mock: true, retries: 0 });
+    const session = await factory.authenticateAs({ email: 'eve.holt@reqres.in', password: 'cityslicka' });
+    await factory.createAuthClient().login({ email: 'nobody@reqres.in', password }).catch(() => undefined);
+
+    // Step 2: Secrets handed straight to the logger, as metadata and as free text
+    logger.logRequest('POST', '/api/login', { email: 'eve.holt@reqres.in', password }, { 'x-api-key': apiKey });
+    logger.logResponse('POST', '/api/login', 200, { token: session.token });
+    logger.info(`Retrying with password=${password} and Authorization: Bearer ${session.token}`);
+    logger.info(marker);
+
+    // Step 3: Once the marker is flushed, nothing above is on disk in clear text
+    await expect.poll(() => readWritten().includes(marker), { timeout: 10000 }).toBe(true);
+    const contents = readWritten();
+    expect(contents).not.toContain('cityslicka');
+    expect(contents).not.toContain(password);
+    expect(contents).not.toContain(apiKey);
+    expect(contents).not.toContain(session.token);
+    expect(contents).not.toContain('eve.holt@reqres.in');
+    expect(contents).toContain('[REDACTED]');
+
+    // Step 4: Text patterns keep the label and mask only the value
+    const redactor = new Redactor({ patterns: [new RegExp(EMAIL_PATTERN.source, 'gi')] });
+    expect(redactor.redactText('password=abc123&page=2')).toBe('password=[REDACTED]&page=2');
+    expect(redactor.redactText('Authorization: Bearer abc.def-ghi')).toBe('Authorization: Bearer [REDACTED]');
+    expect(redactor.redactText('Sent to eve.holt@reqres.in')).toBe('Sent to [REDACTED]');
+    expect(redactor.redact({ headers: { 'X-API-Key': apiKey }, note: `api_key: ${apiKey}` })).toEqual({
+      headers: { 'X-API-Key': '[REDACTED]' },
+      note: 'api_key: [REDACTED]'
+    });
+
+    logger.info('Log redaction verified');
+  });
+});
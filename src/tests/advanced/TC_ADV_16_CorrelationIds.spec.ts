@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory, ApiInterceptor } from '@/clients';
+import { getLoggerConfig } from '@/config';
+import { CorrelationContext } from '@/utils/correlation';
+
+test.describe('C4. Advanced Testing - Correlation IDs', () => {
+  test('TC-ADV-19: Requests and Log Lines Carry the Test and Request IDs', async ({
+    request,
+    correlationId,
+    testContext,
+    requestRecorder,
+    logger
+  }) => {
+    logger.info('Testing correlation ID propagation');
+
+    const sent: Record<string, string>[] = [];
+    const capture: ApiInterceptor = {
+      name: 'capture-headers',
+      onRequest: prepared => {
+        sent.push(prepared.headers);
+      }
+    };
+
+    // Step 1: The test's ID reaches TestContext and prefixes a per-test sequence in the X-Request-ID header
+    expect(testContext.testId).toBe(correlationId);
+    const factory = new ApiClientFactory(request, { mock: true, retries: 0 }, [capture]);
+    const userClient = factory.createUserClient();
+    await userClient.getUser(2);
+    await userClient.getUsers({ page: 1 });
+
+    expect(sent.map(headers => headers['X-Request-ID'])).toEqual([`${correlationId}-1`, `${correlationId}-2`]);
+    expect(requestRecorder.getRecords().map(record => record.requestId)).toEqual([`${correlationId}-1`, `${correlationId}-2`]);
+
+    // Step 2: The header name is configurable and the sequence continues across factories
+    const custom = new ApiClientFactory(request, { mock: true, retries: 0, correlationHeader: 'X-Correlation-ID' }, [capture]);
+    await custom.createResourceClient().getResources();
+    expect(sent[2]['X-Correlation-ID']).toBe(`${correlationId}-3`);
+    expect(sent[2]['X-Request-ID']).toBeUndefined();
+
+    // Step 3: Concurrent requests keep their own request ID in every line they log
+    await Promise.all([userClient.getUser(3), userClient.getUser(4)]);
+    const marker = `correlation-marker-${Date.now()}`;
+    logger.info(marker);
+
+    const logFile = getLoggerConfig().filename!;
+    await expect.poll(() => fs.readFileSync(logFile, 'utf-8').includes(marker), { timeout: 10000 }).toBe(true);
+    const lines = fs.readFileSync(logFile, 'utf-8').split('\n').filter(line => line.includes(correlationId));
+
+    const requestIdOf = (url: string) => {
+      const line = lines.find(l => l.includes(`Making GET request to ${url}`));
+      return line && JSON.parse(line.substring(line.indexOf('{'))).requestId;
+    };
+    const { baseURL } = factory.getConfig();
+    const ids = [requestIdOf(`${baseURL}/api/users/3`), requestIdOf(`${baseURL}/api/users/4`)];
+    expect(ids.sort()).toEqual([`${correlationId}-4`, `${correlationId}-5`]);
+    expect(lines.find(line => line.includes(marker))).toContain(`"testId":"${correlationId}"`);
+    expect(lines.find(line => line.includes(marker))).not.toContain('requestId');
+
+    // Step 4: A test's captured lines are bounded and cleared when the next test starts
+    const context = new CorrelationContext(2);
+    context.capture('before any test');
+    context.startTest('test_a');
+    ['one', 'two', 'three'].forEach(line => context.capture(line));
+    expect(context.nextRequestId()).toBe('test_a-1');
+    expect(context.endTest()).toEqual(['two', 'three']);
+    expect(context.getTestId()).toBeUndefined();
+
+    logger.info('Correlation IDs verified');
+  });
+});
@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory } from '@/clients';
+import { getLoggerConfig } from '@/config';
+import { Logger } from '@/utils/logger';
+
+test.describe('C4. Advanced Testing - Child Loggers', () => {
+  test('TC-ADV-20: Child Loggers Share One Root and Inherit Bound Metadata', async ({
+    request,
+    correlationId,
+    logger
+  }, testInfo) => {
+    logger.info('Testing child loggers');
+
+    const root = Logger.getRoot();
+    const transports = root.transports.length;
+
+    // Step 1: Children keep the parent's metadata and add their own without changing the parent
+    const parent = new Logger('Suite', { suite: 'child-loggers' });
+    const child = parent.child('Step', { step: 1 });
+    expect(child.getContext()).toBe('Step');
+    expect(child.getMetadata()).toEqual({ suite: 'child-loggers', step: 1 });
+    expect(parent.getMetadata()).toEqual({ suite: 'child-loggers' });
+    expect(parent.child('Override', { suite: 'other' }).getMetadata()).toEqual({ suite: 'other' });
+
+    // Step 2: Creating hundreds of clients reuses the root's transports instead of opening new files
+    const factory = new ApiClientFactory(request, { mock: true, retries: 0 });
+    const clients = Array.from({ length: 300 }, () => factory.createUserClient());
+    expect(Logger.getRoot()).toBe(root);
+    expect(root.transports).toHaveLength(transports);
+
+    // Step 3: Each line carries the bound metadata, the worker index and the test ID
+    const marker = `child-logger-marker-${Date.now()}`;
+    await clients[299].getUser(2);
+    child.info(marker);
+
+    const logFile = getLoggerConfig().filename!;
+    await expect.poll(() => fs.readFileSync(logFile, 'utf-8').includes(marker), { timeout: 10000 }).toBe(true);
+    const lines = fs.readFileSync(logFile, 'utf-8').split('\n').filter(line => line.includes(correlationId));
+    const metaOf = (line: string) => JSON.parse(line.substring(line.indexOf('{')));
+
+    const markerLine = lines.find(line => line.includes(marker))!;
+    expect(markerLine).toContain('[Step]');
+    expect(metaOf(markerLine)).toMatchObject({
+      suite: 'child-loggers',
+      step: 1,
+      workerIndex: testInfo.workerIndex,
+      testId: correlationId
+    });
+
+    const clientLine = lines.find(line => line.includes(`Making GET request to ${factory.getConfig().baseURL}/api/users/2`))!;
+    expect(metaOf(clientLine)).toMatchObject({ client: 'UserClient', workerIndex: testInfo.workerIndex });
+
+    logger.info('Child loggers verified');
+  });
+});
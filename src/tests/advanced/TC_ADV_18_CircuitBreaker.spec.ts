@@ -0,0 +1,132 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ManualClock } from '@/utils/clock';
+import { CircuitBreaker, CircuitState, CircuitStateChange } from '@/utils/circuit-breaker';
+
+const succeed = () => Promise.resolve('ok');
+const fail = (message: string = 'connect ECONNREFUSED') => () => Promise.reject(new Error(message));
+
+test.describe('C4. Advanced Testing - Circuit Breaker', () => {
+  test('TC-ADV-21: Sliding Window Opens on Failure Rate and Closes After Trial Calls', async ({
+    logger
+  }) => {
+    logger.info('Testing sliding-window failure rate and HALF_OPEN trial calls');
+
+    const clock = new ManualClock(0);
+    const breaker = new CircuitBreaker({
+      mode: 'sliding-window',
+      failureThreshold: 5,
+      failureRateThreshold: 50,
+      minimumCalls: 4,
+      monitoringPeriod: 1000,
+      recoveryTimeout: 5000,
+      halfOpenMaxCalls: 2,
+      isFailure: () => true
+    }, clock);
+    const changes: CircuitStateChange[] = [];
+    breaker.onStateChange(change => changes.push(change));
+
+    // Step 1: Below the minimum call count a high failure rate does not open the circuit
+    await breaker.execute(succeed);
+    await breaker.execute(fail()).catch(() => undefined);
+    await breaker.execute(fail()).catch(() => undefined);
+    expect(breaker.getWindow()).toMatchObject({ calls: 3, failures: 2, failureRate: 67 });
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+
+    // Step 2: Calls older than monitoringPeriod leave the window
+    await clock.advance(1001);
+    expect(breaker.getWindow().calls).toBe(0);
+
+    // Step 3: 50% failures over 4 calls opens it, and calls are rejected until recoveryTimeout passes
+    await breaker.execute(succeed);
+    await breaker.execute(fail('HTTP 503')).catch(() => undefined);
+    await breaker.execute(succeed);
+    await breaker.execute(fail('HTTP 503')).catch(() => undefined);
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+    expect(changes).toEqual([
+      { from: CircuitState.CLOSED, to: CircuitState.OPEN, reason: 'failure rate 50% over 4 calls', timestamp: 1001 }
+    ]);
+    await expect(breaker.execute(succeed)).rejects.toThrow('Circuit breaker is OPEN');
+    expect(breaker.getMetrics().rejectedRequests).toBe(1);
+
+    // Step 4: HALF_OPEN lets halfOpenMaxCalls trials through and closes once all of them succeed
+    await clock.advance(5000);
+    let releaseTrials!: () => void;
+    const gate = new Promise<void>(resolve => { releaseTrials = resolve; });
+    const trials = [breaker.execute(() => gate), breaker.execute(() => gate)];
+    expect(breaker.getState()).toBe(CircuitState.HALF_OPEN);
+    await expect(breaker.execute(succeed)).rejects.toThrow('All 2 trial call(s) are in use');
+
+    releaseTrials();
+    await Promise.all(trials);
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+    expect(changes.map(change => `${change.from}->${change.to}`)).toEqual([
+      'CLOSED->OPEN',
+      'OPEN->HALF_OPEN',
+      'HALF_OPEN->CLOSED'
+    ]);
+    expect(breaker.getWindow().calls).toBe(0);
+
+    logger.info('Sliding-window circuit breaker verified', { metrics: breaker.getMetrics() });
+  });
+
+  test('TC-ADV-22: Slow Calls Open the Circuit and a Failed Trial Reopens It', async ({
+    logger
+  }) => {
+    logger.info('Testing slow-call rate and consecutive failure modes');
+
+    const clock = new ManualClock(0);
+    const breaker = new CircuitBreaker({
+      mode: 'sliding-window',
+      failureThreshold: 5,
+      monitoringPeriod: 10000,
+      recoveryTimeout: 1000,
+      minimumCalls: 2,
+      slowCallDurationThreshold: 200,
+      slowCallRateThreshold: 50
+    }, clock);
+    const changes: string[] = [];
+    const stop = breaker.onStateChange(change => changes.push(`${change.to}: ${change.reason}`));
+    const slow = async () => {
+      await clock.advance(300);
+      return 'slow';
+    };
+
+    // Step 1: Successful but slow calls count toward the slow-call rate
+    await breaker.execute(succeed);
+    await breaker.execute(slow);
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+    expect(breaker.getMetrics().slowRequests).toBe(1);
+    expect(changes).toEqual(['OPEN: slow call rate 50% over 2 calls']);
+
+    // Step 2: A trial call that fails with a counted error sends it straight back to OPEN
+    await clock.advance(1000);
+    await expect(breaker.execute(fail('connect ETIMEDOUT'))).rejects.toThrow('ETIMEDOUT');
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+    expect(changes.slice(1)).toEqual([
+      'HALF_OPEN: recovery timeout of 1000ms elapsed',
+      'OPEN: trial call failed: connect ETIMEDOUT'
+    ]);
+
+    // Step 3: Errors outside expectedErrors free the trial slot without closing or reopening
+    await clock.advance(1000);
+    await expect(breaker.execute(fail('Not Found'))).rejects.toThrow('Not Found');
+    expect(breaker.getState()).toBe(CircuitState.HALF_OPEN);
+    await breaker.execute(succeed);
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+
+    // Step 4: The default consecutive mode still trips only on expected errors in a row
+    stop();
+    const consecutive = new CircuitBreaker({ failureThreshold: 2, recoveryTimeout: 1000, monitoringPeriod: 1000 }, clock);
+    await consecutive.execute(fail('Not Found')).catch(() => undefined);
+    await consecutive.execute(succeed);
+    await consecutive.execute(fail()).catch(() => undefined);
+    expect(consecutive.getState()).toBe(CircuitState.CLOSED);
+    await consecutive.execute(fail()).catch(() => undefined);
+    expect(consecutive.getState()).toBe(CircuitState.OPEN);
+    expect(consecutive.getWindow().calls).toBe(0);
+    expect(changes).toHaveLength(5);
+
+    logger.info('Slow-call and consecutive modes verified');
+  });
+});
@@ -0,0 +1,80 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory, circuitBreakerKey } from '@/clients';
+
+// Nothing listens on port 9, so requests fail fast with ECONNREFUSED
+const OFFLINE_URL = 'http://127.0.0.1:9';
+
+test.describe('C4. Advanced Testing - Circuit Breaker Registry', () => {
+  test('TC-ADV-23: Clients Share Breakers per Host or Endpoint Across a Factory or Worker', async ({
+    request,
+    circuitBreakers,
+    logger
+  }) => {
+    logger.info('Testing shared circuit breakers');
+
+    // Step 1: Failures from different clients of one factory count against the same host breaker
+    const factory = new ApiClientFactory(request, {
+      baseURL: OFFLINE_URL,
+      retries: 0,
+      mock: false,
+      circuitBreaker: { failureThreshold: 2 }
+    });
+    const { userClient, authClient, resourceClient } = factory.createAllClients();
+
+    await expect(userClient.getUser(2)).rejects.toThrow('ECONNREFUSED');
+    await expect(authClient.login({ email: 'eve.holt@reqres.in', password: 'cityslicka' })).rejects.toThrow('ECONNREFUSED');
+    await expect(resourceClient.getResources()).rejects.toThrow('Circuit breaker is OPEN');
+
+    const registry = factory.getCircuitBreakerRegistry();
+    expect(registry.keys()).toEqual([OFFLINE_URL]);
+    expect(resourceClient.getCircuitBreakerState()).toBe('OPEN');
+    expect(registry.getAggregateMetrics()).toMatchObject({
+      breakers: 1,
+      open: 1,
+      totalRequests: 2,
+      failedRequests: 2,
+      rejectedRequests: 1
+    });
+
+    // Step 2: A second factory has its own registry, so its clients are unaffected
+    const other = new ApiClientFactory(request, { baseURL: OFFLINE_URL, retries: 0, mock: false });
+    expect(other.getCircuitBreakerRegistry()).not.toBe(registry);
+    expect(other.createUserClient().getCircuitBreakerState()).toBe('CLOSED');
+
+    // Step 3: The endpoint scope keeps one breaker per path template
+    const scoped = new ApiClientFactory(request, { mock: true, retries: 0, circuitBreaker: { scope: 'endpoint' } });
+    const scopedUsers = scoped.createUserClient();
+    await scopedUsers.getUser(2);
+    await scopedUsers.getUser(3);
+    await scopedUsers.getUsers({ page: 1 });
+    const { baseURL } = scoped.getConfig();
+    expect(scoped.getCircuitBreakerRegistry().keys().sort()).toEqual([
+      circuitBreakerKey(`${baseURL}/api/users`, 'endpoint'),
+      circuitBreakerKey(`${baseURL}/api/users/2`, 'endpoint')
+    ]);
+    expect(scopedUsers.getCircuitBreakerMetrics('/api/users/7').totalRequests).toBe(2);
+
+    // Step 4: Worker sharing hands every factory the same registry, so an open breaker is seen by all of them
+    circuitBreakers.reset(OFFLINE_URL);
+    const workerConfig = { baseURL: OFFLINE_URL, retries: 0, mock: false, circuitBreaker: { failureThreshold: 1, sharing: 'worker' as const } };
+    const first = new ApiClientFactory(request, workerConfig);
+    const second = new ApiClientFactory(request, workerConfig);
+    expect(first.getCircuitBreakerRegistry()).toBe(circuitBreakers);
+
+    await expect(first.createUserClient().getUser(2)).rejects.toThrow('ECONNREFUSED');
+    await expect(second.createUserClient().getUser(2)).rejects.toThrow('Circuit breaker is OPEN');
+
+    // Step 5: Snapshots give the reporter each breaker's state, counts and window
+    const [snapshot] = circuitBreakers.getSnapshots().filter(s => s.key === OFFLINE_URL);
+    expect(snapshot).toMatchObject({
+      registry: circuitBreakers.getName(),
+      key: OFFLINE_URL,
+      state: 'OPEN',
+      metrics: { totalRequests: 1, failedRequests: 1, rejectedRequests: 1 }
+    });
+
+    circuitBreakers.reset(OFFLINE_URL);
+    logger.info('Shared circuit breakers verified');
+  });
+});
@@ -0,0 +1,71 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ManualClock } from '@/utils/clock';
+import { ApiClientFactory, Bulkhead, BulkheadRejectedError, isBulkheadRejectedError } from '@/clients';
+
+test.describe('C4. Advanced Testing - Bulkhead', () => {
+  test('TC-ADV-24: Bulkhead Caps Concurrent Requests With a Bounded, Timed Queue', async ({
+    request,
+    logger
+  }) => {
+    logger.info('Testing bulkhead concurrency limits');
+
+    // Step 1: Callers beyond maxConcurrent wait and get slots in arrival order
+    const clock = new ManualClock(0);
+    const bulkhead = new Bulkhead({ maxConcurrent: 2, maxQueue: 2, queueTimeout: 1000 }, clock);
+    const order: string[] = [];
+    const held = [await bulkhead.acquire(), await bulkhead.acquire()];
+    expect(held).toEqual([0, 0]);
+
+    const third = bulkhead.acquire().then(waited => { order.push('third'); return waited; });
+    const fourth = bulkhead.acquire().then(waited => { order.push('fourth'); return waited; });
+    expect(bulkhead.getMetrics()).toMatchObject({ activeRequests: 2, queuedRequests: 2, maxQueueDepth: 2 });
+
+    // Step 2: A full queue rejects straight away with a typed error
+    const rejected = await bulkhead.acquire().catch(error => error);
+    expect(isBulkheadRejectedError(rejected)).toBe(true);
+    expect(rejected).toMatchObject({ reason: 'queue-full', maxConcurrent: 2, queueDepth: 2, waited: 0 });
+
+    await clock.advance(300);
+    bulkhead.release();
+    await clock.advance(200);
+    bulkhead.release();
+    expect(await Promise.all([third, fourth])).toEqual([300, 500]);
+    expect(order).toEqual(['third', 'fourth']);
+    expect(clock.pendingTimers()).toBe(0); // granted callers' queueTimeout timers are cancelled
+
+    // Step 3: A caller still queued after queueTimeout is rejected and leaves the queue
+    const late = bulkhead.acquire().catch(error => error);
+    await clock.advance(1000);
+    expect(await late).toMatchObject({ reason: 'queue-timeout', waited: 1000 });
+    expect(bulkhead.getMetrics()).toMatchObject({
+      activeRequests: 2,
+      queuedRequests: 0,
+      totalRequests: 6,
+      delayedRequests: 2,
+      rejectedRequests: 1,
+      timedOutRequests: 1,
+      maxWaitTime: 500,
+      averageWaitTime: 400
+    });
+
+    // Step 4: A client with one slot and no queue rejects the second of two parallel requests
+    const factory = new ApiClientFactory(request, { mock: true, retries: 0, bulkhead: { maxConcurrent: 1, maxQueue: 0 } });
+    const userClient = factory.createUserClient();
+    const results = await Promise.allSettled([userClient.getUser(2), userClient.getUser(3)]);
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(BulkheadRejectedError);
+    expect(userClient.getBulkheadMetrics()).toMatchObject({ activeRequests: 0, totalRequests: 2, rejectedRequests: 1 });
+
+    // Step 5: The host scope makes every client of the factory share one bulkhead per origin
+    const shared = new ApiClientFactory(request, { mock: true, retries: 0, bulkhead: { maxConcurrent: 2, scope: 'host' } });
+    const { userClient: users, resourceClient } = shared.createAllClients();
+    await Promise.all([users.getUser(2), users.getUser(3), resourceClient.getResources(), resourceClient.getResource(2)]);
+    expect(users.getBulkhead()).toBe(resourceClient.getBulkhead());
+    expect(shared.getBulkheadMetrics()).toEqual({
+      [new URL(shared.getConfig().baseURL).origin]: expect.objectContaining({ totalRequests: 4, delayedRequests: 2, activeRequests: 0 })
+    });
+
+    logger.info('Bulkhead verified', { metrics: shared.getBulkheadMetrics() });
+  });
+});
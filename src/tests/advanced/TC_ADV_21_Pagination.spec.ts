@@ -0,0 +1,59 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ApiClientFactory } from '@/clients';
+import { PaginationParams } from '@/types';
+
+test.describe('C4. Advanced Testing - Pagination', () => {
+  test('TC-ADV-25: List Endpoints Are Iterated Across Pages With Limits and Early Stop', async ({
+    request,
+    logger
+  }) => {
+    logger.info('Testing paginated iteration over list endpoints');
+
+    const factory = new ApiClientFactory(request, { mock: true, retries: 0 });
+    const { userClient, resourceClient } = factory.createAllClients();
+    const requested: number[] = [];
+    const getUsers = (params: PaginationParams) => {
+      requested.push(params.page!);
+      return userClient.getUsers(params);
+    };
+
+    // Step 1: fetchAll follows total_pages from the first page
+    const users = await userClient.getAllUsers();
+    expect(users.map(user => user.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    expect((await resourceClient.getAllResources({ perPage: 5 })).length).toBe(12);
+
+    // Step 2: Pages fetched concurrently are still yielded in page order
+    const pages: number[] = [];
+    for await (const page of userClient.paginatePages(getUsers, { perPage: 3, concurrency: 2 })) {
+      pages.push(page.data.page!);
+    }
+    expect(pages).toEqual([1, 2, 3, 4]);
+
+    // Step 3: maxItems and maxPages stop before the remaining pages are requested
+    requested.length = 0;
+    const firstFour = await userClient.fetchAll(getUsers, { perPage: 3, maxItems: 4 });
+    expect(firstFour.map(user => user.id)).toEqual([1, 2, 3, 4]);
+    expect(requested).toEqual([1, 2]);
+    expect(await userClient.fetchAll(getUsers, { startPage: 2, perPage: 3, maxPages: 2 })).toHaveLength(6);
+
+    // Step 4: stopWhen ends the iteration after the first matching item
+    requested.length = 0;
+    let found;
+    for await (const user of userClient.paginate(getUsers, { stopWhen: user => user.last_name === 'Lawson' })) {
+      found = user;
+    }
+    expect(found).toMatchObject({ id: 7, first_name: 'Michael' });
+    expect(requested).toEqual([1, 2]);
+
+    // Step 5: searchUsers finds matches on every page, not just the first
+    const search = await userClient.searchUsers('george');
+    expect(search.data.data.map(user => user.id)).toEqual([1, 11]);
+    expect(search.data.total).toBe(12);
+    expect((await userClient.searchUsers('Rachel', { per_page: 4 })).data.data).toEqual([
+      expect.objectContaining({ id: 12, email: 'rachel.howell@reqres.in' })
+    ]);
+
+    logger.info('Paginated iteration verified');
+  });
+});
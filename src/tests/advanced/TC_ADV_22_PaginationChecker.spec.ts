@@ -0,0 +1,70 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { PaginationChecker } from '@/helpers/pagination-checker';
+import { ApiClientFactory } from '@/clients';
+import { reqresSupport, reqresUsers } from '@/fixtures/reqres.fixture';
+
+test.describe('C4. Advanced Testing - Pagination Checker', () => {
+  test('TC-ADV-26: Pagination Metadata, Page Sizes and IDs Stay Consistent Across Pages', async ({
+    request,
+    logger
+  }) => {
+    logger.info('Testing the pagination invariant checker');
+
+    const factory = new ApiClientFactory(request, { mock: true, retries: 0 });
+    const { userClient, resourceClient } = factory.createAllClients();
+    const checker = new PaginationChecker();
+
+    // Step 1: Users and resources pass every check at the default and a custom page size
+    const users = await checker.check(params => userClient.getUsers(params));
+    expect(users).toEqual({ valid: true, pages: 2, items: 12, total: 12, perPage: 6, totalPages: 2, issues: [] });
+
+    const resources = await checker.check(params => resourceClient.getResources(params), {
+      perPage: 5,
+      expectedIds: Array.from({ length: 12 }, (_, i) => i + 1)
+    });
+    expect(resources).toMatchObject({ valid: true, pages: 3, items: 12, totalPages: 3 });
+
+    // Step 2: An endpoint whose pages overlap is reported with duplicate and missing ids and a total its pages cannot hold
+    factory.getMockServer()!.register('GET /api/users', mockRequest => {
+      const page = Number(mockRequest.query.page) || 1;
+      const start = Math.max((page - 1) * 6 - 1, 0);
+      return {
+        status: 200,
+        data: {
+          page,
+          per_page: 6,
+          total: 13,
+          total_pages: 2,
+          data: reqresUsers.slice(start, start + 6),
+          support: reqresSupport
+        }
+      };
+    });
+
+    const broken = await checker.check(params => userClient.getUsers(params), { expectedIds: [12] });
+    expect(broken.valid).toBe(false);
+    expect(broken.issues).toEqual([
+      { check: 'metadata', message: 'total_pages is 2, but 13 items at 6 per page need 3' },
+      { check: 'duplicate-id', page: 2, message: 'id 6 already returned on page 1' },
+      { check: 'total', message: 'total is 13, but the pages returned 12 item(s)' },
+      { check: 'missing-id', message: 'id(s) 12 were not returned on any page' },
+      { check: 'out-of-range', page: 3, message: 'Expected status 200 with page 3 and no data, got status 200 with 1 item(s)' }
+    ]);
+    expect(PaginationChecker.formatIssues(broken.issues)).toContain('duplicate-id (page 2): id 6 already returned on page 1');
+
+    // Step 3: APIs that reject pages past the end can be checked with outOfRange 'error'
+    factory.getMockServer()!.register('GET /api/unknown', mockRequest => {
+      const page = Number(mockRequest.query.page) || 1;
+      return page > 1
+        ? { status: 404, data: {} }
+        : { status: 200, data: { page, per_page: 6, total: 2, total_pages: 1, data: [{ id: 1 }, { id: 2 }] } };
+    });
+    const strict = await checker.check(params => resourceClient.getResources(params, { validateSchema: false }), {
+      outOfRange: 'error'
+    });
+    expect(strict.issues).toEqual([]);
+
+    logger.info('Pagination checker verified');
+  });
+});
@@ -0,0 +1,92 @@
+import { expect } from '@playwright/test';
+import { ApiResponseValidator, test } from '@/helpers/test.helpers';
+import { ManualClock } from '@/utils/clock';
+import { ApiClientFactory, ResponseCache, UserClient } from '@/clients';
+import { reqresSupport, reqresUsers } from '@/fixtures/reqres.fixture';
+
+test.describe('C4. Advanced Testing - HTTP Cache', () => {
+  test('TC-ADV-27: GET Responses Are Cached, Revalidated With ETags and Invalidated by Writes', async ({
+    request,
+    logger
+  }) => {
+    logger.info('Testing the HTTP response cache');
+
+    // Serves an ETag per user version and answers a matching If-None-Match with 304
+    const factory = new ApiClientFactory(request, { mock: true, retries: 0, cache: {} });
+    const mockServer = factory.getMockServer()!;
+    const conditions: Array<string | undefined> = [];
+    let version = 1;
+    mockServer.register('GET /api/users/:id', mockRequest => {
+      const etag = `W/"user-${mockRequest.params.id}-v${version}"`;
+      const headers = { 'Content-Type': 'application/json', 'ETag': etag, 'Cache-Control': 'max-age=60' };
+      conditions.push(mockRequest.headers['If-None-Match']);
+
+      if (mockRequest.headers['If-None-Match'] === etag) {
+        return { status: 304, data: null, headers };
+      }
+      const user = reqresUsers[Number(mockRequest.params.id) - 1];
+      return {
+        status: 200,
+        data: { data: { ...user, first_name: version === 1 ? user.first_name : 'Jane' }, support: reqresSupport },
+        headers: { ...headers, 'Last-Modified': new Date(Date.UTC(2024, 0, version)).toUTCString() }
+      };
+    });
+
+    const clock = new ManualClock(0);
+    const cache = new ResponseCache(100, clock);
+    const userClient = new UserClient(factory.getConfig(), request, { mockServer, responseCache: cache });
+    const validator = new ApiResponseValidator();
+
+    // Step 1: The first GET is sent and its caching headers are well formed
+    const first = await userClient.getUser(2);
+    expect(first.cache).toBe('miss');
+    expect(validator.validateCacheHeaders(first, { etag: true, lastModified: true, cacheable: true, minMaxAge: 60 })).toBe(true);
+
+    // Step 2: Within max-age the cached copy is served without a request, and callers cannot change it
+    const second = await userClient.getUser(2);
+    expect(second.cache).toBe('hit');
+    second.data.data.first_name = 'Changed';
+    expect((await userClient.getUser(2)).data.data.first_name).toBe('Janet');
+    expect(conditions).toEqual([undefined]);
+
+    // Step 3: Once stale it is revalidated with If-None-Match; a 304 still hands the caller the cached 200
+    await clock.advance(60_000);
+    const revalidated = await userClient.getUser(2);
+    expect(revalidated).toMatchObject({ status: 200, cache: 'revalidated', data: { data: { first_name: 'Janet' } } });
+    expect(conditions[1]).toBe('W/"user-2-v1"');
+    expect((await userClient.getUser(2)).cache).toBe('hit');
+
+    // Step 4: A changed resource answers the conditional request with a fresh 200
+    version = 2;
+    await clock.advance(60_000);
+    const changed = await userClient.getUser(2);
+    expect(changed).toMatchObject({ status: 200, cache: 'miss', data: { data: { first_name: 'Jane' } } });
+
+    // Step 5: A successful write drops the cached copy, and cache: false skips the cache for one call
+    await userClient.updateUser(2, { name: 'Jane Weaver', job: 'lead' });
+    expect((await userClient.getUser(2)).cache).toBe('miss');
+    expect((await userClient.getUser(2, { cache: false })).cache).toBeUndefined();
+    expect(conditions.slice(2)).toEqual(['W/"user-2-v1"', undefined, undefined]);
+    expect(cache.getMetrics()).toMatchObject({ hits: 3, revalidated: 1, misses: 3, entries: 1, hitRate: 57 });
+
+    // Step 6: ttlByClient caches one client's responses that carry no caching headers, leaving the others uncached
+    const ttlFactory = new ApiClientFactory(request, { mock: true, retries: 0, cache: { ttlByClient: { UserClient: 60_000 } } });
+    const { userClient: users, resourceClient } = ttlFactory.createAllClients();
+    await users.getUsers({ page: 2 });
+    expect((await users.getUsers({ page: 2 })).cache).toBe('hit');
+    expect((await users.getUsers({ page: 1 })).cache).toBe('miss');
+    await resourceClient.getResources();
+    expect((await resourceClient.getResources()).cache).toBe('miss');
+    expect(ttlFactory.getCacheMetrics()).toMatchObject({ hits: 1, misses: 4, entries: 2 });
+
+    // Step 7: Malformed or missing cache headers are reported
+    expect(ResponseCache.checkHeaders({ 'ETag': 'abc', 'Cache-Control': 'no-store, max-age=10' }, { lastModified: true, cacheable: true })).toEqual([
+      'ETag abc is not a quoted entity tag',
+      'Last-Modified header is missing',
+      'Cache-Control no-store, max-age=10 combines no-store with max-age',
+      'Cache-Control no-store forbids caching'
+    ]);
+
+    logger.info('HTTP cache verified', { metrics: cache.getMetrics() });
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from '@playwright/test';
+import { test } from '@/helpers/test.helpers';
+import { ApiError } from '@/clients';
+import { ManualClock } from '@/utils/clock';
+import { RetryPolicy } from '@/utils/retry-policy';
+import { HttpMethod, RequestConfig } from '@/types';
+
+const get: RequestConfig = { method: 'GET', url: '/api/users' };
+
+const apiError = (status: number, headers: Record<string, string> = {}, request: RequestConfig = get) => new ApiError({
+  status,
+  statusText: '',
+  body: {},
+  headers,
+  request,
+  url: `https://reqres.in${request.url}`
+});
+
+test.describe('C4. Advanced Testing - Retry Policy', () => {
+  test('TC-ADV-28: Backoff, Jitter, Retry-After and Retry Filters Give Exact Decisions', async ({
+    logger
+  }) => {
+    logger.info('Testing retry policy delays and decisions');
+
+    // Step 1: Each backoff strategy grows the delay as documented and maxDelay caps it
+    const delays = (backoff: 'fixed' | 'linear' | 'exponential') => {
+      const policy = new RetryPolicy({ maxRetries: 5, baseDelay: 100, maxDelay: 500, backoff, jitter: 'none' });
+      return [0, 1, 2, 3, 4].map(attempt => policy.getDelay(attempt));
+    };
+    expect(delays('fixed')).toEqual([100, 100, 100, 100, 100]);
+    expect(delays('linear')).toEqual([100, 200, 300, 400, 500]);
+    expect(delays('exponential')).toEqual([100, 200, 400, 500, 500]);
+
+    // Step 2: Full jitter spreads over [0, delay] and equal jitter over [delay / 2, delay]
+    const withJitter = (jitter: 'full' | 'equal', random: number) =>
+      new RetryPolicy({ maxRetries: 3, baseDelay: 1000, jitter }, () => random).getDelay(1);
+    expect([withJitter('full', 0), withJitter('full', 0.25), withJitter('full', 1)]).toEqual([0, 500, 2000]);
+    expect([withJitter('equal', 0), withJitter('equal', 0.5), withJitter('equal', 1)]).toEqual([1000, 1500, 2000]);
+
+    // Step 3: Retry-After is read as seconds or an HTTP date, measured from the injected clock and capped
+    const clock = new ManualClock(Date.UTC(2024, 0, 1, 12, 0, 0));
+    expect(RetryPolicy.parseRetryAfter('3')).toBe(3000);
+    expect(RetryPolicy.parseRetryAfter('Mon, 01 Jan 2024 12:00:05 GMT', clock.now())).toBe(5000);
+    expect(RetryPolicy.parseRetryAfter('Mon, 01 Jan 2024 11:59:00 GMT', clock.now())).toBe(0);
+    expect(RetryPolicy.parseRetryAfter('soon')).toBeUndefined();
+    expect(RetryPolicy.parseRetryAfter(undefined)).toBeUndefined();
+
+    const policy = new RetryPolicy({ maxRetries: 2, baseDelay: 100, jitter: 'none', maxRetryAfter: 10000 }, () => 0, clock);
+    expect(policy.evaluate(apiError(429, { 'retry-after': 'Mon, 01 Jan 2024 12:00:07 GMT' }), get, 0)).toEqual({
+      shouldRetry: true,
+      delay: 7000,
+      reason: 'status 429 with Retry-After'
+    });
+    expect(policy.evaluate(apiError(503, { 'retry-after': '120' }), get, 0).delay).toBe(10000);
+    expect(policy.evaluate(apiError(500, { 'retry-after': '5' }), get, 1)).toEqual({
+      shouldRetry: true,
+      delay: 200,
+      reason: 'status 500 is retryable'
+    });
+
+    // Step 4: Only listed statuses and network errors are retried, up to maxRetries
+    expect(policy.evaluate(apiError(404), get, 0)).toEqual({ shouldRetry: false, delay: 0, reason: 'status 404 is not retryable' });
+    expect(policy.evaluate(new Error('connect ECONNREFUSED 127.0.0.1:9'), get, 0)).toEqual({
+      shouldRetry: true,
+      delay: 100,
+      reason: 'ECONNREFUSED is retryable'
+    });
+    expect(policy.evaluate(new Error('Unexpected token'), get, 0).reason).toBe('error "Unexpected token" is not retryable');
+    expect(policy.evaluate(apiError(503), get, 2)).toEqual({ shouldRetry: false, delay: 0, reason: 'retry limit of 2 reached' });
+
+    const custom = new RetryPolicy({ maxRetries: 1, baseDelay: 100, jitter: 'none', retryableStatuses: [409], retryableErrors: ['EBUSY'] });
+    expect(custom.evaluate(apiError(409), get, 0).shouldRetry).toBe(true);
+    expect(custom.evaluate(apiError(503), get, 0).shouldRetry).toBe(false);
+    expect(custom.evaluate(new Error('EBUSY: resource busy'), get, 0).shouldRetry).toBe(true);
+
+    // Step 5: POST and PATCH are retried only when marked idempotent or retryNonIdempotent is on
+    const request = (method: HttpMethod, idempotent?: boolean): RequestConfig => ({ method, url: '/api/users', idempotent });
+    expect(['GET', 'PUT', 'DELETE', 'POST', 'PATCH'].map(method =>
+      policy.evaluate(apiError(503), request(method as HttpMethod), 0).shouldRetry
+    )).toEqual([true, true, true, false, false]);
+    expect(policy.evaluate(apiError(503), request('POST'), 0).reason).toBe('POST is not idempotent and retries were not enabled');
+    expect(policy.evaluate(apiError(503), request('POST', true), 0).shouldRetry).toBe(true);
+    expect(policy.evaluate(apiError(503), request('PUT', false), 0).shouldRetry).toBe(true);
+
+    const permissive = new RetryPolicy({ maxRetries: 1, baseDelay: 100, retryNonIdempotent: true });
+    expect(permissive.evaluate(apiError(503), request('PATCH'), 0).shouldRetry).toBe(true);
+    expect(permissive.evaluate(apiError(503), request('PATCH', false), 0).shouldRetry).toBe(false);
+
+    logger.info('Retry policy verified');
+  });
+});
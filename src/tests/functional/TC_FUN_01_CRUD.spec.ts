@@ -1,5 +1,6 @@
 import { expect } from '@playwright/test';
 import { test } from '@/helpers/test.helpers';
+import { ApiError } from '@/clients';
 import { UserDataFactory } from '@/data';
 import { CreateUserRequest } from '@/types';
 import { TestDataLoader } from '@/utils/test-data-loader';
@@ -87,7 +88,7 @@ test.describe('A. Functional Tests - CRUD Operations', () => {
     // Test 3: Non-existent user retrieval
     await expect(async () => {
       await apiClients.userClient.getUser(999999);
-    }).rejects.toThrow();
+    }).rejects.toThrow(ApiError);
 
     // Test 4: Invalid user ID format (if applicable)
     const exists = await apiClients.userClient.userExists(999999);
@@ -158,7 +159,11 @@ test.describe('A. Functional Tests - CRUD Operations', () => {
     const deleteResponse = await apiClients.userClient.deleteUser(2);
     expect(deleteResponse.status).toBe(204);
 
-    // Test 5: Not Found (404) - handled by error boundary
+    // Test 5: Not Found (404) - asserted directly on the returned response
+    const notFoundResponse = await apiClients.userClient.getUser(999999, { expectedStatus: [404] });
+    expect(notFoundResponse.status).toBe(404);
+    expect(notFoundResponse.data).toEqual({});
+
     const exists = await apiClients.userClient.userExists(999999);
     expect(exists).toBe(false);
 
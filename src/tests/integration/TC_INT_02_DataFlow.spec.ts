@@ -144,10 +144,35 @@ test.describe('B2. Integration Tests - Data Persistence & Retrieval Flow', () =>
 
     expect(successfulBatchCreations).toBeGreaterThan(0);
 
+    // Step 5: Create resources and verify retrieval through the resource endpoints
+    logger.info('Step 5: Creating resources and verifying retrieval');
+
+    const resourceData = dataManager.getResourceFactory().createResourceForCreation();
+    const createResourceResponse = await apiClients.resourceClient.createResource(resourceData);
+
+    expect(createResourceResponse.status).toBe(201);
+    expect(createResourceResponse.data.id).toBeDefined();
+    expect(createResourceResponse.data.createdAt).toBeDefined();
+    expect(createResourceResponse.data.name).toBe(resourceData.name);
+    expect(createResourceResponse.data.pantone_value).toBe(resourceData.pantone_value);
+
+    // Note: reqres.in doesn't persist created resources, so retrieval uses a known resource
+    const knownResourceId = 2;
+    const retrieveResourceResponse = await apiClients.resourceClient.getResource(knownResourceId);
+
+    expect(retrieveResourceResponse.status).toBe(200);
+    expect(retrieveResourceResponse.data.data.id).toBe(knownResourceId);
+    expect(retrieveResourceResponse.data.data).toHaveProperty('pantone_value');
+
+    const resourceListResponse = await apiClients.resourceClient.getResources({ page: 1 });
+    expect(resourceListResponse.status).toBe(200);
+    expect(resourceListResponse.data.data.length).toBeGreaterThan(0);
+
     logger.info('Resource creation and persistence verification completed', {
       totalUsersCreated: createdUsers.length,
       retrievalResults: retrievalResults.length,
-      successfulBatchCreations
+      successfulBatchCreations,
+      createdResourceId: createResourceResponse.data.id
     });
   });
 
@@ -1,3 +1,5 @@
+import { JsonSchema } from './schema.types';
+
 // Base API Response Structure
 export interface BaseApiResponse {
   page?: number;
@@ -67,6 +69,29 @@ export interface Resource {
   pantone_value: string;
 }
 
+export interface CreateResourceRequest {
+  name: string;
+  year: number;
+  color: string;
+  pantone_value: string;
+}
+
+export interface CreateResourceResponse extends CreateResourceRequest {
+  id: string;
+  createdAt: string;
+}
+
+export interface UpdateResourceRequest {
+  name?: string;
+  year?: number;
+  color?: string;
+  pantone_value?: string;
+}
+
+export interface UpdateResourceResponse extends UpdateResourceRequest {
+  updatedAt: string;
+}
+
 export interface ResourceListResponse extends BaseApiResponse {
   data: Resource[];
 }
@@ -104,10 +129,49 @@ export interface ApiClientConfig {
   retries?: number;
   retryDelay?: number;
   headers?: Record<string, string>;
+  throwOnHttpError?: boolean;
+  rateLimit?: {
+    requests: number;
+    window: number; // in milliseconds
+  };
+  retryPolicy?: {
+    backoff?: 'fixed' | 'linear' | 'exponential';
+    jitter?: 'none' | 'full' | 'equal';
+    maxDelay?: number;
+    retryableStatuses?: number[];
+    retryableErrors?: string[];
+    retryNonIdempotent?: boolean;
+    respectRetryAfter?: boolean;
+    maxRetryAfter?: number;
+  };
   circuitBreaker?: {
     failureThreshold?: number;
     recoveryTimeout?: number;
     monitoringPeriod?: number;
+    mode?: 'consecutive' | 'sliding-window';
+    failureRateThreshold?: number;
+    slowCallDurationThreshold?: number;
+    slowCallRateThreshold?: number;
+    minimumCalls?: number;
+    halfOpenMaxCalls?: number;
+    scope?: 'host' | 'endpoint'; // one breaker per origin (default) or per origin and path template
+    sharing?: 'factory' | 'worker'; // breakers shared by one factory's clients (default) or by every factory in the worker
+  };
+  mock?: boolean; // answer requests from MockServer routes instead of the network
+  validateSchemas?: boolean; // enforce each request's responseSchema on successful responses
+  contractCheck?: boolean; // record every request and response against the OpenAPI document
+  recordHar?: boolean; // capture each HTTP attempt, secrets masked, into the test's HAR attachment
+  correlationHeader?: string; // header carrying the request ID, X-Request-ID by default
+  bulkhead?: {
+    maxConcurrent: number; // requests in flight at once, retries and backoff included
+    maxQueue?: number; // requests waiting for a slot before new ones are rejected; unbounded by default
+    queueTimeout?: number; // ms a request may wait for a slot; waits indefinitely by default
+    scope?: 'client' | 'host'; // limit each client (default) or every client of a factory sending to the same origin
+  };
+  cache?: {
+    ttl?: number; // ms a GET response stays fresh, replacing Cache-Control max-age and Expires
+    ttlByClient?: Record<string, number>; // ttl per client class name, e.g. { UserClient: 60000 }
+    maxEntries?: number; // least recently used responses are dropped beyond this; 500 by default
   };
 }
 
@@ -118,14 +182,65 @@ export interface RequestConfig {
   params?: Record<string, any>;
   headers?: Record<string, string>;
   timeout?: number;
+  throwOnHttpError?: boolean;
+  expectedStatus?: number[];
+  idempotent?: boolean;
+  responseSchema?: JsonSchema; // contract for 2xx bodies, declared by the client method
+  validateSchema?: boolean; // overrides ApiClientConfig.validateSchemas for this call
+  cache?: boolean; // false skips ApiClientConfig.cache for this call, neither reading nor storing
 }
 
+// Per-call overrides accepted by client methods
+export type RequestOptions = Pick<RequestConfig, 'timeout' | 'throwOnHttpError' | 'expectedStatus' | 'responseSchema' | 'validateSchema' | 'cache'>;
+
+// hit: served from the cache without a request. revalidated: a conditional request got 304. miss: sent in full
+export type CacheOutcome = 'hit' | 'revalidated' | 'miss';
+
 export interface ApiResponse<T = any> {
   data: T;
   status: number;
   statusText: string;
   headers: Record<string, string>;
   config: RequestConfig;
+  timing?: RequestTiming;
+  cache?: CacheOutcome; // set for GET requests when ApiClientConfig.cache is on
+}
+
+// Timing of a single HTTP attempt, excluding rate-limit waits and retry backoff
+export interface AttemptTiming {
+  attempt: number;
+  startedAt: number;
+  duration: number; // in milliseconds
+  status?: number;
+  size: number; // response body in bytes
+  error?: string;
+}
+
+// Recorded by BaseApiClient on every response it sends and on the ApiError it throws
+export interface RequestTiming {
+  startedAt: number;
+  duration: number; // final attempt's HTTP call, in milliseconds
+  total: number; // wall time including retries, backoff and rate limiting
+  retries: number;
+  size: number; // final response body in bytes
+  attempts: AttemptTiming[];
+}
+
+// One client call as handed to the reporter; status is undefined when no response arrived
+export interface RequestRecord {
+  requestId: string; // value of the correlation header
+  method: HttpMethod;
+  url: string; // without the query string
+  endpoint: string; // path template, e.g. /api/users/{id}
+  status?: number;
+  error?: string;
+  timestamp: string;
+  duration: number; // final attempt's HTTP call, or wall time when no response arrived
+  total: number; // wall time including retries, backoff and rate limiting
+  retries?: number; // unknown when the request failed without a response
+  requestSize: number; // request body in bytes
+  responseSize?: number;
+  cache?: CacheOutcome; // hits never reached the API
 }
 
 export interface PaginationParams {
@@ -133,6 +248,20 @@ export interface PaginationParams {
   per_page?: number;
 }
 
+export interface PaginatedResponse<T> extends BaseApiResponse {
+  data: T[];
+}
+
+// Options for BaseApiClient.paginate, paginatePages and fetchAll
+export interface PaginateOptions<T = any> {
+  startPage?: number; // 1 by default
+  perPage?: number; // sent as per_page; the API default when omitted
+  concurrency?: number; // pages requested at once after the first, which supplies total_pages; 1 by default
+  maxPages?: number;
+  maxItems?: number;
+  stopWhen?: (item: T, index: number) => boolean; // stops after the first item it returns true for
+}
+
 export interface QueryParams extends PaginationParams {
   delay?: number;
   [key: string]: any;
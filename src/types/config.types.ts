@@ -12,6 +12,21 @@ export interface EnvironmentConfig {
     requests: number;
     window: number; // in milliseconds
   };
+  mock?: boolean;
+  validateSchemas?: boolean;
+  contractCheck?: boolean;
+  recordHar?: boolean;
+  correlationHeader?: string;
+  bulkhead?: {
+    maxConcurrent: number;
+    maxQueue?: number;
+    queueTimeout?: number; // in milliseconds
+    scope?: 'client' | 'host';
+  };
+  cache?: {
+    ttl?: number; // in milliseconds
+    maxEntries?: number;
+  };
 }
 
 export interface LoggerConfig {
@@ -22,6 +37,14 @@ export interface LoggerConfig {
   maxFiles?: number;
   colorize?: boolean;
   timestamp?: boolean;
+  redaction?: LogRedactionConfig;
+}
+
+// Added to the built-in redaction policy for every console and file log line
+export interface LogRedactionConfig {
+  fields?: string[];
+  headers?: string[];
+  patterns?: string[]; // regular expressions, matched case-insensitively
 }
 
 export interface TestConfig {
@@ -56,7 +79,21 @@ export interface EnvironmentVariables {
   NODE_ENV?: Environment;
   API_BASE_URL?: string;
   API_KEY?: string;
+  API_MOCK?: string;
+  VALIDATE_SCHEMAS?: string;
+  CONTRACT_CHECK?: string;
+  RECORD_HAR?: string;
+  CORRELATION_HEADER?: string;
+  BULKHEAD_MAX_CONCURRENT?: string;
+  BULKHEAD_MAX_QUEUE?: string;
+  BULKHEAD_QUEUE_TIMEOUT?: string;
+  HTTP_CACHE?: string;
+  HTTP_CACHE_TTL?: string;
+  HTTP_CACHE_MAX_ENTRIES?: string;
   LOG_LEVEL?: LogLevel;
+  LOG_REDACT_FIELDS?: string;
+  LOG_REDACT_HEADERS?: string;
+  LOG_REDACT_PATTERN?: string;
   TEST_TIMEOUT?: string;
   TEST_RETRIES?: string;
   TEST_WORKERS?: string;
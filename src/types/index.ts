@@ -1,6 +1,7 @@
 export * from './api.types';
 export * from './config.types';
 export * from './test.types';
+export * from './schema.types';
 
 // Re-export commonly used types for convenience
 export type {
@@ -12,6 +13,10 @@ export type {
   UserListResponse,
   SingleUserResponse,
   Resource,
+  CreateResourceRequest,
+  CreateResourceResponse,
+  UpdateResourceRequest,
+  UpdateResourceResponse,
   ResourceListResponse,
   SingleResourceResponse,
   LoginRequest,
@@ -19,9 +24,14 @@ export type {
   RegisterRequest,
   RegisterResponse,
   ApiResponse,
+  AttemptTiming,
+  RequestTiming,
+  RequestRecord,
+  CacheOutcome,
   ApiErrorResponse,
   HttpMethod,
   RequestConfig,
+  RequestOptions,
   ApiClientConfig
 } from './api.types';
 
@@ -30,6 +40,7 @@ export type {
   LogLevel,
   EnvironmentConfig,
   LoggerConfig,
+  LogRedactionConfig,
   TestConfig,
   FrameworkConfig,
   EnvironmentVariables
@@ -51,5 +62,24 @@ export type {
   ValidationResult,
   CleanupTask,
   MockResponse,
+  MockRequest,
+  MockHandler,
+  MockRoute,
   MockConfig
 } from './test.types';
+
+export type {
+  JsonSchema,
+  JsonSchemaType,
+  JsonSchemaFormat,
+  SchemaIssue,
+  SchemaValidationResult
+} from './schema.types';
+
+export type {
+  HarEntry,
+  HarLog,
+  HarNameValue,
+  HarRequest,
+  HarResponse
+} from './har.types';
@@ -0,0 +1,42 @@
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+// Formats understood by SchemaValidator; unknown formats are ignored as JSON Schema allows
+export type JsonSchemaFormat = 'email' | 'date-time' | 'date' | 'uri' | 'uuid' | 'hex-color';
+
+// The subset of JSON Schema (draft 2020-12 / OpenAPI 3) used for response contracts
+export interface JsonSchema {
+  $ref?: string; // '#/definitions/Name' or '#/components/schemas/Name'
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  nullable?: boolean; // OpenAPI 3.0 spelling of type: [..., 'null']
+  enum?: unknown[];
+  const?: unknown;
+  format?: JsonSchemaFormat | string;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema; // defaults to the validator's policy when omitted
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+export interface SchemaIssue {
+  path: string; // JSONPath-style location, e.g. $.data[0].email
+  keyword: string; // the schema keyword that failed
+  expected: string;
+  received: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  issues: SchemaIssue[];
+}
@@ -1,4 +1,4 @@
-import { User, Resource } from './api.types';
+import { HttpMethod, User, Resource } from './api.types';
 export interface TestUser extends Omit<User, 'id'> {
   password?: string;
   confirmPassword?: string;
@@ -132,8 +132,22 @@ export interface MockResponse<T = any> {
   delay?: number;
 }
 
+// Request as seen by a mock route; params are filled from `:name` segments of the matched pattern
+export interface MockRequest {
+  method: HttpMethod;
+  path: string;
+  query: Record<string, string>;
+  params: Record<string, string>;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse;
+
+export type MockRoute = MockResponse | MockHandler;
+
 export interface MockConfig {
   enabled: boolean;
-  responses: Map<string, MockResponse>;
+  responses: Map<string, MockRoute>;
   defaultDelay: number;
 }
@@ -0,0 +1,171 @@
+import { Clock, systemClock } from './clock';
+
+export interface BulkheadConfig {
+  maxConcurrent: number;
+  maxQueue?: number; // callers allowed to wait for a slot; 0 rejects as soon as all slots are busy, unbounded by default
+  queueTimeout?: number; // ms a caller may wait before it is rejected; waits indefinitely by default
+}
+
+export interface BulkheadMetrics {
+  activeRequests: number;
+  queuedRequests: number;
+  maxQueueDepth: number;
+  totalRequests: number;
+  delayedRequests: number; // granted after waiting in the queue
+  rejectedRequests: number; // queue full
+  timedOutRequests: number; // waited longer than queueTimeout
+  totalWaitTime: number;
+  maxWaitTime: number;
+  averageWaitTime: number;
+}
+
+export type BulkheadRejectionReason = 'queue-full' | 'queue-timeout';
+
+// Thrown instead of sending a request when the bulkhead has no slot for it
+export class BulkheadRejectedError extends Error {
+  readonly reason: BulkheadRejectionReason;
+  readonly maxConcurrent: number;
+  readonly queueDepth: number;
+  readonly waited: number;
+
+  constructor(reason: BulkheadRejectionReason, config: BulkheadConfig, queueDepth: number, waited: number) {
+    super(reason === 'queue-full'
+      ? `Bulkhead full: ${config.maxConcurrent} request(s) in flight and ${queueDepth} queued`
+      : `Bulkhead queue timeout: no slot free after ${waited}ms (${config.maxConcurrent} request(s) in flight)`);
+
+    this.name = 'BulkheadRejectedError';
+    this.reason = reason;
+    this.maxConcurrent = config.maxConcurrent;
+    this.queueDepth = queueDepth;
+    this.waited = waited;
+
+    Object.setPrototypeOf(this, BulkheadRejectedError.prototype);
+  }
+}
+
+export const isBulkheadRejectedError = (error: unknown): error is BulkheadRejectedError => {
+  return error instanceof BulkheadRejectedError;
+};
+
+interface QueuedCaller {
+  enqueuedAt: number;
+  grant: (waited: number) => void;
+  reject: (error: Error) => void;
+  timeout?: AbortController; // cancels the queueTimeout sleep once the caller gets a slot
+}
+
+// Caps concurrent work at maxConcurrent; later callers wait in order in a bounded queue
+export class Bulkhead {
+  private config: BulkheadConfig;
+  private clock: Clock;
+  private active: number;
+  private queue: QueuedCaller[];
+  private metrics: Omit<BulkheadMetrics, 'activeRequests' | 'queuedRequests' | 'averageWaitTime'>;
+
+  constructor(config: BulkheadConfig, clock: Clock = systemClock) {
+    if (config.maxConcurrent <= 0) {
+      throw new Error('Bulkhead maxConcurrent must be greater than 0');
+    }
+
+    this.config = config;
+    this.clock = clock;
+    this.active = 0;
+    this.queue = [];
+    this.metrics = this.createEmptyMetrics();
+  }
+
+  // Runs fn once a slot is free and frees the slot when fn settles
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await fn();
+    } finally {
+      this.release();
+    }
+  }
+
+  // Resolves with the ms waited once the caller holds a slot; every successful acquire needs one release
+  acquire(): Promise<number> {
+    this.metrics.totalRequests++;
+
+    if (this.active < this.config.maxConcurrent && this.queue.length === 0) {
+      this.active++;
+      return Promise.resolve(0);
+    }
+
+    if (this.config.maxQueue !== undefined && this.queue.length >= this.config.maxQueue) {
+      this.metrics.rejectedRequests++;
+      return Promise.reject(new BulkheadRejectedError('queue-full', this.config, this.queue.length, 0));
+    }
+
+    return new Promise<number>((resolve, reject) => {
+      const caller: QueuedCaller = { enqueuedAt: this.clock.now(), grant: resolve, reject };
+      this.queue.push(caller);
+      this.metrics.maxQueueDepth = Math.max(this.metrics.maxQueueDepth, this.queue.length);
+
+      if (this.config.queueTimeout !== undefined) {
+        caller.timeout = new AbortController();
+        this.clock.sleep(this.config.queueTimeout, caller.timeout.signal).then(() => this.expire(caller));
+      }
+    });
+  }
+
+  release(): void {
+    const next = this.queue.shift();
+    if (!next) {
+      this.active = Math.max(0, this.active - 1);
+      return;
+    }
+
+    // The slot passes straight to the next caller, so active stays the same
+    next.timeout?.abort();
+    const waited = this.clock.now() - next.enqueuedAt;
+    this.metrics.delayedRequests++;
+    this.metrics.totalWaitTime += waited;
+    this.metrics.maxWaitTime = Math.max(this.metrics.maxWaitTime, waited);
+    next.grant(waited);
+  }
+
+  getMetrics(): BulkheadMetrics {
+    return {
+      ...this.metrics,
+      activeRequests: this.active,
+      queuedRequests: this.queue.length,
+      averageWaitTime: this.metrics.delayedRequests > 0
+        ? this.metrics.totalWaitTime / this.metrics.delayedRequests
+        : 0
+    };
+  }
+
+  getConfig(): BulkheadConfig {
+    return { ...this.config };
+  }
+
+  // Clears the counters; requests in flight or queued are left alone
+  reset(): void {
+    this.metrics = this.createEmptyMetrics();
+  }
+
+  private expire(caller: QueuedCaller): void {
+    const index = this.queue.indexOf(caller);
+    if (index === -1) {
+      return;
+    }
+
+    this.queue.splice(index, 1);
+    this.metrics.timedOutRequests++;
+    caller.reject(new BulkheadRejectedError('queue-timeout', this.config, this.queue.length, this.clock.now() - caller.enqueuedAt));
+  }
+
+  private createEmptyMetrics(): Omit<BulkheadMetrics, 'activeRequests' | 'queuedRequests' | 'averageWaitTime'> {
+    return {
+      maxQueueDepth: 0,
+      totalRequests: 0,
+      delayedRequests: 0,
+      rejectedRequests: 0,
+      timedOutRequests: 0,
+      totalWaitTime: 0,
+      maxWaitTime: 0
+    };
+  }
+}
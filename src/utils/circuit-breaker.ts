@@ -1,94 +1,258 @@
+import { Clock, systemClock } from './clock';
+
 export enum CircuitState {
   CLOSED = 'CLOSED',
   OPEN = 'OPEN',
   HALF_OPEN = 'HALF_OPEN'
 }
 
+// consecutive: open after failureThreshold counted failures in a row.
+// sliding-window: open when the failure or slow-call rate over the last monitoringPeriod ms crosses its threshold
+export type CircuitBreakerMode = 'consecutive' | 'sliding-window';
+
 export interface CircuitBreakerConfig {
   failureThreshold: number;
   recoveryTimeout: number;
   monitoringPeriod: number;
   expectedErrors?: string[];
+  mode?: CircuitBreakerMode;
+  failureRateThreshold?: number; // percent of calls in the window, sliding-window mode
+  slowCallDurationThreshold?: number; // calls taking at least this many ms are slow
+  slowCallRateThreshold?: number; // percent of calls in the window, sliding-window mode
+  minimumCalls?: number; // calls the window needs before either rate can open the circuit
+  halfOpenMaxCalls?: number; // trial calls let through in HALF_OPEN; all must succeed to close
+  isFailure?: (error: Error) => boolean; // replaces the expectedErrors match when given
 }
 
 export interface CircuitBreakerMetrics {
   totalRequests: number;
   successfulRequests: number;
   failedRequests: number;
+  slowRequests: number;
+  rejectedRequests: number;
   consecutiveFailures: number;
   lastFailureTime?: Date;
   state: CircuitState;
 }
 
+// Calls inside the current monitoringPeriod
+export interface CircuitBreakerWindow {
+  calls: number;
+  failures: number;
+  slowCalls: number;
+  failureRate: number; // percent
+  slowCallRate: number; // percent
+}
+
+export interface CircuitStateChange {
+  from: CircuitState;
+  to: CircuitState;
+  reason: string;
+  timestamp: number;
+}
+
+export type CircuitStateListener = (change: CircuitStateChange) => void;
+
+type ResolvedCircuitBreakerConfig = Required<Omit<CircuitBreakerConfig, 'isFailure' | 'slowCallDurationThreshold'>> &
+  Pick<CircuitBreakerConfig, 'isFailure' | 'slowCallDurationThreshold'>;
+
+interface CallOutcome {
+  at: number;
+  failed: boolean;
+  slow: boolean;
+}
+
 export class CircuitBreaker {
-  private config: CircuitBreakerConfig;
+  private config: ResolvedCircuitBreakerConfig;
+  private clock: Clock;
   private metrics: CircuitBreakerMetrics;
   private nextAttempt: Date;
+  private outcomes: CallOutcome[];
+  private trialCalls: number;
+  private trialSuccesses: number;
+  private listeners: CircuitStateListener[];
 
-  constructor(config: CircuitBreakerConfig) {
+  constructor(config: CircuitBreakerConfig, clock: Clock = systemClock) {
     this.config = {
       ...config,
       failureThreshold: config.failureThreshold || 5,
       recoveryTimeout: config.recoveryTimeout || 60000,
       monitoringPeriod: config.monitoringPeriod || 10000,
-      expectedErrors: config.expectedErrors || ['ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND']
+      expectedErrors: config.expectedErrors || ['ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND'],
+      mode: config.mode || 'consecutive',
+      failureRateThreshold: config.failureRateThreshold ?? 50,
+      slowCallRateThreshold: config.slowCallRateThreshold ?? 100,
+      minimumCalls: config.minimumCalls ?? 10,
+      halfOpenMaxCalls: config.halfOpenMaxCalls || 1
     };
 
-    this.metrics = {
-      totalRequests: 0,
-      successfulRequests: 0,
-      failedRequests: 0,
-      consecutiveFailures: 0,
-      state: CircuitState.CLOSED
-    };
-
-    this.nextAttempt = new Date();
+    this.clock = clock;
+    this.metrics = this.createEmptyMetrics();
+    this.nextAttempt = new Date(this.clock.now());
+    this.outcomes = [];
+    this.trialCalls = 0;
+    this.trialSuccesses = 0;
+    this.listeners = [];
   }
 
   // Execute function with circuit breaker protection
   async execute<T>(fn: () => Promise<T>): Promise<T> {
-    if (this.metrics.state === CircuitState.OPEN) {
-      if (Date.now() < this.nextAttempt.getTime()) {
-        throw new Error(`Circuit breaker is OPEN. Next attempt allowed at ${this.nextAttempt.toISOString()}`);
-      } else {
-        this.metrics.state = CircuitState.HALF_OPEN;
-      }
-    }
-
+    this.acquirePermission();
     this.metrics.totalRequests++;
 
+    const startedAt = this.clock.now();
     try {
       const result = await fn();
-      this.onSuccess();
+      this.onSuccess(this.isSlow(startedAt));
       return result;
     } catch (error) {
-      this.onFailure(error as Error);
+      this.onFailure(error as Error, this.isSlow(startedAt));
       throw error;
     }
   }
 
-  private onSuccess(): void {
+  // Returns a function that stops the listener
+  onStateChange(listener: CircuitStateListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  private acquirePermission(): void {
+    if (this.metrics.state === CircuitState.OPEN) {
+      if (this.clock.now() < this.nextAttempt.getTime()) {
+        this.metrics.rejectedRequests++;
+        throw new Error(`Circuit breaker is OPEN. Next attempt allowed at ${this.nextAttempt.toISOString()}`);
+      }
+      this.transitionTo(CircuitState.HALF_OPEN, `recovery timeout of ${this.config.recoveryTimeout}ms elapsed`);
+    }
+
+    if (this.metrics.state === CircuitState.HALF_OPEN) {
+      if (this.trialCalls >= this.config.halfOpenMaxCalls) {
+        this.metrics.rejectedRequests++;
+        throw new Error(`Circuit breaker is HALF_OPEN. All ${this.config.halfOpenMaxCalls} trial call(s) are in use`);
+      }
+      this.trialCalls++;
+    }
+  }
+
+  private onSuccess(slow: boolean): void {
     this.metrics.successfulRequests++;
     this.metrics.consecutiveFailures = 0;
+    this.recordOutcome(false, slow);
 
     if (this.metrics.state === CircuitState.HALF_OPEN) {
-      this.metrics.state = CircuitState.CLOSED;
+      this.trialSuccesses++;
+      if (this.trialSuccesses >= this.config.halfOpenMaxCalls) {
+        this.transitionTo(CircuitState.CLOSED, `${this.trialSuccesses} trial call(s) succeeded`);
+      }
+      return;
     }
+
+    this.evaluateWindow();
   }
 
-  private onFailure(error: Error): void {
+  private onFailure(error: Error, slow: boolean): void {
     this.metrics.failedRequests++;
     this.metrics.consecutiveFailures++;
-    this.metrics.lastFailureTime = new Date();
+    this.metrics.lastFailureTime = new Date(this.clock.now());
+
+    const counted = this.config.isFailure
+      ? this.config.isFailure(error)
+      : this.config.expectedErrors.some(expectedError =>
+          error.message.includes(expectedError) || error.name.includes(expectedError)
+        );
+
+    // Errors that do not count, such as a 404, show the service is answering
+    this.recordOutcome(counted, slow);
+
+    if (this.metrics.state === CircuitState.HALF_OPEN) {
+      if (counted) {
+        this.transitionTo(CircuitState.OPEN, `trial call failed: ${error.message}`);
+      } else {
+        this.trialCalls--;
+      }
+      return;
+    }
+
+    if (this.config.mode === 'consecutive') {
+      if (counted && this.metrics.consecutiveFailures >= this.config.failureThreshold) {
+        this.transitionTo(CircuitState.OPEN, `${this.metrics.consecutiveFailures} consecutive failures`);
+      }
+      return;
+    }
+
+    this.evaluateWindow();
+  }
+
+  private isSlow(startedAt: number): boolean {
+    const threshold = this.config.slowCallDurationThreshold;
+    return threshold !== undefined && this.clock.now() - startedAt >= threshold;
+  }
+
+  private recordOutcome(failed: boolean, slow: boolean): void {
+    if (slow) {
+      this.metrics.slowRequests++;
+    }
+    if (this.config.mode === 'sliding-window') {
+      this.outcomes.push({ at: this.clock.now(), failed, slow });
+    }
+  }
+
+  private evaluateWindow(): void {
+    if (this.config.mode !== 'sliding-window' || this.metrics.state !== CircuitState.CLOSED) {
+      return;
+    }
+
+    const window = this.getWindow();
+    if (window.calls < this.config.minimumCalls) {
+      return;
+    }
+
+    if (window.failureRate >= this.config.failureRateThreshold) {
+      this.transitionTo(CircuitState.OPEN, `failure rate ${window.failureRate}% over ${window.calls} calls`);
+    } else if (this.config.slowCallDurationThreshold !== undefined && window.slowCallRate >= this.config.slowCallRateThreshold) {
+      this.transitionTo(CircuitState.OPEN, `slow call rate ${window.slowCallRate}% over ${window.calls} calls`);
+    }
+  }
 
-    const isExpectedError = this.config.expectedErrors?.some(expectedError =>
-      error.message.includes(expectedError) || error.name.includes(expectedError)
-    );
+  private transitionTo(state: CircuitState, reason: string): void {
+    const from = this.metrics.state;
+    if (from === state) {
+      return;
+    }
 
-    if (isExpectedError && this.metrics.consecutiveFailures >= this.config.failureThreshold) {
-      this.metrics.state = CircuitState.OPEN;
-      this.nextAttempt = new Date(Date.now() + this.config.recoveryTimeout);
+    this.metrics.state = state;
+    this.trialCalls = 0;
+    this.trialSuccesses = 0;
+    if (state === CircuitState.OPEN) {
+      this.nextAttempt = new Date(this.clock.now() + this.config.recoveryTimeout);
+    }
+    if (state === CircuitState.CLOSED) {
+      this.metrics.consecutiveFailures = 0;
+      this.outcomes = [];
     }
+
+    const change: CircuitStateChange = { from, to: state, reason, timestamp: this.clock.now() };
+    this.listeners.forEach(listener => listener(change));
+  }
+
+  // Always empty in consecutive mode
+  getWindow(): CircuitBreakerWindow {
+    const since = this.clock.now() - this.config.monitoringPeriod;
+    this.outcomes = this.outcomes.filter(outcome => outcome.at > since);
+
+    const calls = this.outcomes.length;
+    const failures = this.outcomes.filter(outcome => outcome.failed).length;
+    const slowCalls = this.outcomes.filter(outcome => outcome.slow).length;
+    return {
+      calls,
+      failures,
+      slowCalls,
+      failureRate: calls === 0 ? 0 : Math.round((failures / calls) * 100),
+      slowCallRate: calls === 0 ? 0 : Math.round((slowCalls / calls) * 100)
+    };
   }
 
   getMetrics(): CircuitBreakerMetrics {
@@ -100,23 +264,19 @@ export class CircuitBreaker {
   }
 
   reset(): void {
-    this.metrics = {
-      totalRequests: 0,
-      successfulRequests: 0,
-      failedRequests: 0,
-      consecutiveFailures: 0,
-      state: CircuitState.CLOSED
-    };
-    this.nextAttempt = new Date();
+    this.transitionTo(CircuitState.CLOSED, 'reset');
+    this.metrics = this.createEmptyMetrics();
+    this.nextAttempt = new Date(this.clock.now());
+    this.outcomes = [];
   }
 
   forceOpen(): void {
-    this.metrics.state = CircuitState.OPEN;
-    this.nextAttempt = new Date(Date.now() + this.config.recoveryTimeout);
+    this.transitionTo(CircuitState.OPEN, 'forced open');
+    this.nextAttempt = new Date(this.clock.now() + this.config.recoveryTimeout);
   }
 
   forceClosed(): void {
-    this.metrics.state = CircuitState.CLOSED;
+    this.transitionTo(CircuitState.CLOSED, 'forced closed');
     this.metrics.consecutiveFailures = 0;
   }
 
@@ -129,4 +289,16 @@ export class CircuitBreaker {
   isHealthy(): boolean {
     return this.metrics.state === CircuitState.CLOSED && this.getSuccessRate() > 80;
   }
+
+  private createEmptyMetrics(): CircuitBreakerMetrics {
+    return {
+      totalRequests: 0,
+      successfulRequests: 0,
+      failedRequests: 0,
+      slowRequests: 0,
+      rejectedRequests: 0,
+      consecutiveFailures: 0,
+      state: CircuitState.CLOSED
+    };
+  }
 }
@@ -0,0 +1,71 @@
+export interface Clock {
+  now(): number;
+  // Aborting signal clears the timer and resolves the sleep at once
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: (ms: number, signal?: AbortSignal) => new Promise(resolve => {
+    if (signal?.aborted) {
+      return resolve();
+    }
+
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  })
+};
+
+// Manually advanced clock so time-based utilities can be tested without real waits
+export class ManualClock implements Clock {
+  private current: number;
+  private timers: Array<{ at: number; resolve: () => void }> = [];
+
+  constructor(start: number = 0) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (signal?.aborted) {
+        return resolve();
+      }
+
+      const timer = { at: this.current + Math.max(0, ms), resolve };
+      this.timers.push(timer);
+      signal?.addEventListener('abort', () => {
+        this.timers = this.timers.filter(pending => pending !== timer);
+        resolve();
+      }, { once: true });
+    });
+  }
+
+  // Moves time forward and resolves every sleep that has come due, letting awaiting callers run
+  async advance(ms: number): Promise<void> {
+    await this.flush();
+    this.current += ms;
+
+    const due = this.timers
+      .filter(timer => timer.at <= this.current)
+      .sort((a, b) => a.at - b.at);
+    this.timers = this.timers.filter(timer => timer.at > this.current);
+
+    due.forEach(timer => timer.resolve());
+    await this.flush();
+  }
+
+  pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  private flush(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+  }
+}
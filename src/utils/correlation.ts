@@ -0,0 +1,74 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Header carrying the request ID when ApiClientConfig.correlationHeader is not set
+export const DEFAULT_CORRELATION_HEADER = 'X-Request-ID';
+
+// Name of the per-test attachment holding a failing test's log lines; CustomApiTestReporter groups them by test
+export const TEST_LOGS_ATTACHMENT = 'test-logs';
+
+export interface CorrelationIds {
+  testId?: string;
+  requestId?: string;
+}
+
+// Ties requests and log lines to the running test. A worker runs one test at a time, so the test ID is
+// worker state; request IDs follow the async call chain, so concurrent requests keep their own
+export class CorrelationContext {
+  private testId?: string;
+  private sequence = 0;
+  private requestIds = new AsyncLocalStorage<string>();
+  private lines: string[] = [];
+  private maxLines: number;
+
+  // maxLines: only the most recent lines of a test are kept for its failure excerpt
+  constructor(maxLines: number = 500) {
+    this.maxLines = maxLines;
+  }
+
+  startTest(testId: string): void {
+    this.testId = testId;
+    this.sequence = 0;
+    this.lines = [];
+  }
+
+  // Returns the lines captured during the test
+  endTest(): string[] {
+    const lines = this.lines;
+    this.testId = undefined;
+    this.lines = [];
+    return lines;
+  }
+
+  getTestId(): string | undefined {
+    return this.testId;
+  }
+
+  // <testId>-<n>, numbered per test; requests made outside a test are numbered per worker process
+  nextRequestId(): string {
+    this.sequence++;
+    return `${this.testId || `worker-${process.pid}`}-${this.sequence}`;
+  }
+
+  // Everything fn does, including logging, sees requestId as the current request
+  runWithRequestId<T>(requestId: string, fn: () => T): T {
+    return this.requestIds.run(requestId, fn);
+  }
+
+  getIds(): CorrelationIds {
+    return { testId: this.testId, requestId: this.requestIds.getStore() };
+  }
+
+  // Ignored between tests
+  capture(line: string): void {
+    if (!this.testId) {
+      return;
+    }
+    this.lines.push(line);
+    if (this.lines.length > this.maxLines) {
+      this.lines.shift();
+    }
+  }
+}
+
+// Shared by the Logger and every client in the worker; the correlation fixture starts and ends each test
+export const correlationContext = new CorrelationContext();
@@ -3,126 +3,192 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { LogLevel, LoggerConfig } from '@/types';
 import { getLoggerConfig } from '@/config';
+import { Redactor } from './redaction';
+import { correlationContext } from './correlation';
+
+// Metadata bound to a logger and every child created from it, e.g. { client: 'UserApiClient' }
+export type LoggerMetadata = Record<string, unknown>;
+
+const parseSize = (size: string): number => {
+  const units: Record<string, number> = {
+    'b': 1,
+    'k': 1024,
+    'm': 1024 * 1024,
+    'g': 1024 * 1024 * 1024
+  };
+
+  const match = size.toLowerCase().match(/^(\d+)([bkmg]?)$/);
+  if (!match) {
+    return 10 * 1024 * 1024;
+  }
 
-export class Logger {
-  private winston: winston.Logger;
-  private config: LoggerConfig;
-  private context: string;
+  const [, num, unit] = match;
+  return parseInt(num) * (units[unit] || 1);
+};
 
-  constructor(context: string = 'App') {
-    this.context = context;
-    this.config = getLoggerConfig();
-    this.winston = this.createWinstonLogger();
+// Runs before every transport, so neither the console nor the log files see unmasked secrets;
+// stringified payloads such as logRequest's data are redacted field by field
+const redactFormat = (redactor: Redactor) => winston.format(info => {
+  for (const key of Object.keys(info)) {
+    if (key === 'level' || key === 'timestamp' || key === 'context') {
+      continue;
+    }
+    const value = info[key];
+    info[key] = typeof value === 'string' && /^\s*[[{]/.test(value)
+      ? redactor.redactJson(value)
+      : redactor.redact(value);
+  }
+  return info;
+})();
+
+// Stamps the running test and request on each line and keeps a copy for the test's failure excerpt
+const correlationFormat = winston.format(info => {
+  const { testId, requestId } = correlationContext.getIds();
+  if (testId && info.testId === undefined) {
+    info.testId = testId;
+  }
+  if (requestId && info.requestId === undefined) {
+    info.requestId = requestId;
   }
 
-  private createWinstonLogger(): winston.Logger {
-    if (this.config.filename) {
-      const logDir = path.dirname(this.config.filename);
-      if (!fs.existsSync(logDir)) {
-        fs.mkdirSync(logDir, { recursive: true });
-      }
+  const { level, message, context, ...meta } = info;
+  const ctx = context ? `[${context}] ` : '';
+  const metaStr = Object.keys(meta).length > 0 ? ` ${JSON.stringify(meta)}` : '';
+  correlationContext.capture(`[${new Date().toISOString()}] ${level}: ${ctx}${message}${metaStr}`);
+  return info;
+});
+
+const createRootLogger = (config: LoggerConfig): winston.Logger => {
+  if (config.filename) {
+    const logDir = path.dirname(config.filename);
+    if (!fs.existsSync(logDir)) {
+      fs.mkdirSync(logDir, { recursive: true });
     }
+  }
 
-    const formats: any[] = [];
+  const redactor = new Redactor({
+    fields: config.redaction?.fields,
+    headers: config.redaction?.headers,
+    patterns: (config.redaction?.patterns || []).map(pattern => new RegExp(pattern, 'gi'))
+  });
 
-    if (this.config.timestamp) {
-      formats.push(winston.format.timestamp());
-    }
+  const formats: any[] = [];
 
-    if (this.config.colorize) {
-      formats.push(winston.format.colorize());
-    }
+  if (config.timestamp) {
+    formats.push(winston.format.timestamp());
+  }
 
-    if (this.config.format === 'json') {
-      formats.push(winston.format.json());
-    } else {
-      formats.push(winston.format.printf(({ timestamp, level, message, context, ...meta }) => {
-        const ts = timestamp ? `[${timestamp}] ` : '';
-        const ctx = context ? `[${context}] ` : '';
-        const metaStr = Object.keys(meta).length > 0 ? ` ${JSON.stringify(meta)}` : '';
-        return `${ts}${level}: ${ctx}${message}${metaStr}`;
-      }));
-    }
+  if (config.colorize) {
+    formats.push(winston.format.colorize());
+  }
 
-    const transports: winston.transport[] = [
-      new winston.transports.Console({
-        level: this.config.level,
-        format: winston.format.combine(...formats)
-      })
-    ];
-
-    if (this.config.filename) {
-      transports.push(
-        new winston.transports.File({
-          filename: this.config.filename,
-          level: this.config.level,
-          format: winston.format.combine(
-            winston.format.timestamp(),
-            this.config.format === 'json'
-              ? winston.format.json()
-              : winston.format.printf(({ timestamp, level, message, context, ...meta }) => {
-                  const ctx = context ? `[${context}] ` : '';
-                  const metaStr = Object.keys(meta).length > 0 ? ` ${JSON.stringify(meta)}` : '';
-                  return `[${timestamp}] ${level}: ${ctx}${message}${metaStr}`;
-                })
-          ),
-          maxsize: this.parseSize(this.config.maxSize || '10m'),
-          maxFiles: this.config.maxFiles || 5
-        })
-      );
-    }
+  if (config.format === 'json') {
+    formats.push(winston.format.json());
+  } else {
+    formats.push(winston.format.printf(({ timestamp, level, message, context, ...meta }) => {
+      const ts = timestamp ? `[${timestamp}] ` : '';
+      const ctx = context ? `[${context}] ` : '';
+      const metaStr = Object.keys(meta).length > 0 ? ` ${JSON.stringify(meta)}` : '';
+      return `${ts}${level}: ${ctx}${message}${metaStr}`;
+    }));
+  }
 
-    return winston.createLogger({
-      level: this.config.level,
-      transports,
-      exitOnError: false
-    });
+  const transports: winston.transport[] = [
+    new winston.transports.Console({
+      level: config.level,
+      format: winston.format.combine(...formats)
+    })
+  ];
+
+  if (config.filename) {
+    transports.push(
+      new winston.transports.File({
+        filename: config.filename,
+        level: config.level,
+        format: winston.format.combine(
+          winston.format.timestamp(),
+          config.format === 'json'
+            ? winston.format.json()
+            : winston.format.printf(({ timestamp, level, message, context, ...meta }) => {
+                const ctx = context ? `[${context}] ` : '';
+                const metaStr = Object.keys(meta).length > 0 ? ` ${JSON.stringify(meta)}` : '';
+                return `[${timestamp}] ${level}: ${ctx}${message}${metaStr}`;
+              })
+        ),
+        maxsize: parseSize(config.maxSize || '10m'),
+        maxFiles: config.maxFiles || 5
+      })
+    );
   }
 
-  private parseSize(size: string): number {
-    const units: Record<string, number> = {
-      'b': 1,
-      'k': 1024,
-      'm': 1024 * 1024,
-      'g': 1024 * 1024 * 1024
-    };
+  return winston.createLogger({
+    level: config.level,
+    format: winston.format.combine(redactFormat(redactor), correlationFormat()),
+    // Playwright sets TEST_WORKER_INDEX in worker processes; the runner and reporter have none
+    defaultMeta: process.env.TEST_WORKER_INDEX === undefined ? undefined : { workerIndex: Number(process.env.TEST_WORKER_INDEX) },
+    transports,
+    exitOnError: false
+  });
+};
 
-    const match = size.toLowerCase().match(/^(\d+)([bkmg]?)$/);
-    if (!match) {
-      return 10 * 1024 * 1024;
+// One winston instance, with one set of transports and file handles, per process
+let rootLogger: winston.Logger | undefined;
+
+export class Logger {
+  private winston: winston.Logger;
+  private context: string;
+  private metadata: LoggerMetadata;
+
+  // Every Logger is a winston child of the shared root, with its context and metadata bound to each line
+  constructor(context: string = 'App', metadata: LoggerMetadata = {}) {
+    this.context = context;
+    this.metadata = metadata;
+    this.winston = Logger.getRoot().child({ context, ...metadata });
+  }
+
+  // Created on first use from getLoggerConfig()
+  static getRoot(): winston.Logger {
+    if (!rootLogger) {
+      rootLogger = createRootLogger(getLoggerConfig());
     }
+    return rootLogger;
+  }
+
+  getContext(): string {
+    return this.context;
+  }
 
-    const [, num, unit] = match;
-    return parseInt(num) * (units[unit] || 1);
+  getMetadata(): LoggerMetadata {
+    return { ...this.metadata };
   }
 
   error(message: string, meta?: any): void {
-    this.winston.error(message, { context: this.context, ...meta });
+    this.winston.error(message, { ...meta });
   }
 
   warn(message: string, meta?: any): void {
-    this.winston.warn(message, { context: this.context, ...meta });
+    this.winston.warn(message, { ...meta });
   }
 
   info(message: string, meta?: any): void {
-    this.winston.info(message, { context: this.context, ...meta });
+    this.winston.info(message, { ...meta });
   }
 
   debug(message: string, meta?: any): void {
-    this.winston.debug(message, { context: this.context, ...meta });
+    this.winston.debug(message, { ...meta });
   }
 
   verbose(message: string, meta?: any): void {
-    this.winston.verbose(message, { context: this.context, ...meta });
+    this.winston.verbose(message, { ...meta });
   }
 
   log(level: LogLevel, message: string, meta?: any): void {
-    this.winston.log(level, message, { context: this.context, ...meta });
+    this.winston.log(level, message, { ...meta });
   }
 
-  child(context: string): Logger {
-    const childLogger = new Logger(context);
-    return childLogger;
+  // Keeps this logger's metadata; keys in metadata override it
+  child(context: string, metadata: LoggerMetadata = {}): Logger {
+    return new Logger(context, { ...this.metadata, ...metadata });
   }
 
   // Log API request with structured data for debugging
@@ -172,4 +238,7 @@ export class Logger {
 }
 
 export * from './circuit-breaker';
+export * from './retry-policy';
+export * from './rate-limiter';
+export * from './clock';
 export * from './test-data-loader';
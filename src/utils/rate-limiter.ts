@@ -0,0 +1,115 @@
+import { Clock, systemClock } from './clock';
+
+export interface RateLimiterConfig {
+  requests: number;
+  window: number; // in milliseconds
+}
+
+export interface RateLimiterMetrics {
+  totalRequests: number;
+  throttledRequests: number;
+  queuedRequests: number;
+  totalWaitTime: number;
+  maxWaitTime: number;
+  averageWaitTime: number;
+}
+
+// Sliding-window limiter: at most `requests` grants in any `window` milliseconds, later callers queue in order
+export class RateLimiter {
+  private config: RateLimiterConfig;
+  private clock: Clock;
+  private grants: number[];
+  private queueTail: Promise<void>;
+  private metrics: Omit<RateLimiterMetrics, 'averageWaitTime'>;
+
+  constructor(config: RateLimiterConfig, clock: Clock = systemClock) {
+    if (config.requests <= 0 || config.window <= 0) {
+      throw new Error('Rate limit requests and window must be greater than 0');
+    }
+
+    this.config = config;
+    this.clock = clock;
+    this.grants = [];
+    this.queueTail = Promise.resolve();
+    this.metrics = this.createEmptyMetrics();
+  }
+
+  // Resolves once the caller may send a request, returning how long it waited in ms
+  async acquire(): Promise<number> {
+    const requestedAt = this.clock.now();
+    this.metrics.totalRequests++;
+    this.metrics.queuedRequests++;
+
+    const turn = this.queueTail.then(() => this.waitForSlot());
+    this.queueTail = turn.catch(() => undefined);
+
+    try {
+      await turn;
+    } finally {
+      this.metrics.queuedRequests--;
+    }
+
+    const waited = this.clock.now() - requestedAt;
+    if (waited > 0) {
+      this.metrics.throttledRequests++;
+      this.metrics.totalWaitTime += waited;
+      this.metrics.maxWaitTime = Math.max(this.metrics.maxWaitTime, waited);
+    }
+
+    return waited;
+  }
+
+  getMetrics(): RateLimiterMetrics {
+    return {
+      ...this.metrics,
+      averageWaitTime: this.metrics.throttledRequests > 0
+        ? this.metrics.totalWaitTime / this.metrics.throttledRequests
+        : 0
+    };
+  }
+
+  getConfig(): RateLimiterConfig {
+    return { ...this.config };
+  }
+
+  // Number of grants still available in the current window
+  getAvailableSlots(): number {
+    this.pruneExpiredGrants(this.clock.now());
+    return Math.max(0, this.config.requests - this.grants.length);
+  }
+
+  reset(): void {
+    this.grants = [];
+    this.metrics = this.createEmptyMetrics();
+  }
+
+  private async waitForSlot(): Promise<void> {
+    for (;;) {
+      const now = this.clock.now();
+      this.pruneExpiredGrants(now);
+
+      if (this.grants.length < this.config.requests) {
+        this.grants.push(now);
+        return;
+      }
+
+      await this.clock.sleep(this.grants[0] + this.config.window - now);
+    }
+  }
+
+  private pruneExpiredGrants(now: number): void {
+    while (this.grants.length > 0 && this.grants[0] <= now - this.config.window) {
+      this.grants.shift();
+    }
+  }
+
+  private createEmptyMetrics(): Omit<RateLimiterMetrics, 'averageWaitTime'> {
+    return {
+      totalRequests: 0,
+      throttledRequests: 0,
+      queuedRequests: 0,
+      totalWaitTime: 0,
+      maxWaitTime: 0
+    };
+  }
+}
@@ -0,0 +1,119 @@
+// Names and shapes of secrets that must never reach disk in clear text
+export interface RedactionPolicy {
+  headers: string[]; // header names, case-insensitive
+  fields: string[]; // body and query keys at any depth; case, '_' and '-' are ignored
+  patterns: RegExp[]; // matched inside any string; a first capture group is kept as a prefix
+  mask: string;
+}
+
+// Bearer credentials, and password=..., "token": "..." style pairs inside free text
+export const SECRET_PATTERNS: RegExp[] = [
+  /(Bearer\s+)[A-Za-z0-9._~+/-]+=*/gi,
+  /((?:password|passwd|secret|token|api[_-]?key)["']?\s*[:=]\s*["']?)[^\s"'&,;}]+/gi
+];
+
+export const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  headers: ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'],
+  fields: ['password', 'token', 'accessToken', 'refreshToken', 'apiKey', 'secret', 'clientSecret'],
+  patterns: SECRET_PATTERNS,
+  mask: '[REDACTED]'
+};
+
+const normalize = (name: string): string => name.toLowerCase().replace(/[_-]/g, '');
+
+// Masks secrets in headers, URLs, payloads and free text according to a RedactionPolicy
+export class Redactor {
+  private policy: RedactionPolicy;
+  private headers: Set<string>;
+  private fields: Set<string>;
+
+  // Listed headers, fields and patterns are added to the defaults
+  constructor(policy: Partial<RedactionPolicy> = {}) {
+    this.policy = {
+      headers: [...DEFAULT_REDACTION_POLICY.headers, ...(policy.headers || [])],
+      fields: [...DEFAULT_REDACTION_POLICY.fields, ...(policy.fields || [])],
+      patterns: [...DEFAULT_REDACTION_POLICY.patterns, ...(policy.patterns || [])],
+      mask: policy.mask || DEFAULT_REDACTION_POLICY.mask
+    };
+    this.headers = new Set(this.policy.headers.map(name => name.toLowerCase()));
+    this.fields = new Set(this.policy.fields.map(normalize));
+  }
+
+  isSensitiveHeader(name: string): boolean {
+    return this.headers.has(name.toLowerCase());
+  }
+
+  isSensitiveField(name: string): boolean {
+    return this.fields.has(normalize(name));
+  }
+
+  redactHeaders(headers: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name, this.isSensitiveHeader(name) ? this.policy.mask : value])
+    );
+  }
+
+  redactText(text: string): string {
+    return this.policy.patterns.reduce(
+      (result, pattern) => result.replace(pattern, (_match, prefix) =>
+        typeof prefix === 'string' ? `${prefix}${this.policy.mask}` : this.policy.mask
+      ),
+      text
+    );
+  }
+
+  // Returns a copy with sensitive keys, header names included, masked at any depth and patterns masked in strings
+  redact<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.redactText(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item)) as T;
+    }
+    if (value === null || typeof value !== 'object' || Buffer.isBuffer(value) || value instanceof Date || value instanceof Error) {
+      return value;
+    }
+
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        (this.isSensitiveField(key) || this.isSensitiveHeader(key)) && item !== undefined && item !== null
+          ? this.policy.mask
+          : this.redact(item)
+      ])
+    ) as T;
+  }
+
+  // JSON text is redacted field by field; other text only has the patterns masked
+  redactJson(text: string): string {
+    try {
+      return JSON.stringify(this.redact(JSON.parse(text)));
+    } catch {
+      return this.redactText(text);
+    }
+  }
+
+  redactUrl(url: string): string {
+    const parsed = new URL(url);
+    let changed = false;
+
+    parsed.searchParams.forEach((_value, name) => {
+      if (this.isSensitiveField(name)) {
+        parsed.searchParams.set(name, this.policy.mask);
+        changed = true;
+      }
+    });
+    return changed ? parsed.toString() : url;
+  }
+
+  getPolicy(): RedactionPolicy {
+    return {
+      ...this.policy,
+      headers: [...this.policy.headers],
+      fields: [...this.policy.fields],
+      patterns: [...this.policy.patterns]
+    };
+  }
+}
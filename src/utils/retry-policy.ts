@@ -0,0 +1,161 @@
+import { HttpMethod, RequestConfig } from '@/types';
+import { ApiError } from '@/core/api-error';
+import { Clock, systemClock } from './clock';
+
+export type BackoffStrategy = 'fixed' | 'linear' | 'exponential';
+export type JitterMode = 'none' | 'full' | 'equal';
+
+export interface RetryPolicyConfig {
+  maxRetries: number;
+  baseDelay: number;
+  maxDelay?: number;
+  backoff?: BackoffStrategy;
+  jitter?: JitterMode;
+  retryableStatuses?: number[];
+  retryableErrors?: string[];
+  retryNonIdempotent?: boolean;
+  respectRetryAfter?: boolean;
+  maxRetryAfter?: number;
+}
+
+export interface RetryDecision {
+  shouldRetry: boolean;
+  delay: number;
+  reason: string;
+}
+
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+// Decides whether a failed request is retried and how long to wait before the next attempt
+export class RetryPolicy {
+  private config: Required<RetryPolicyConfig>;
+  private random: () => number;
+  private clock: Clock;
+
+  // clock: the "now" an HTTP-date Retry-After is measured from
+  constructor(config: RetryPolicyConfig, random: () => number = Math.random, clock: Clock = systemClock) {
+    this.config = {
+      maxRetries: config.maxRetries,
+      baseDelay: config.baseDelay,
+      maxDelay: config.maxDelay || 30000,
+      backoff: config.backoff || 'exponential',
+      jitter: config.jitter || 'equal',
+      retryableStatuses: config.retryableStatuses || [408, 425, 429, 500, 502, 503, 504],
+      retryableErrors: config.retryableErrors || ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'Timeout'],
+      retryNonIdempotent: config.retryNonIdempotent ?? false,
+      respectRetryAfter: config.respectRetryAfter ?? true,
+      maxRetryAfter: config.maxRetryAfter || 60000
+    };
+    this.random = random;
+    this.clock = clock;
+  }
+
+  // attempt is zero-based: 0 means the first attempt just failed
+  evaluate(error: Error, request: RequestConfig, attempt: number): RetryDecision {
+    if (attempt >= this.config.maxRetries) {
+      return { shouldRetry: false, delay: 0, reason: `retry limit of ${this.config.maxRetries} reached` };
+    }
+
+    if (!this.isRetryableMethod(request)) {
+      return { shouldRetry: false, delay: 0, reason: `${request.method} is not idempotent and retries were not enabled` };
+    }
+
+    if (error instanceof ApiError) {
+      if (!this.config.retryableStatuses.includes(error.status)) {
+        return { shouldRetry: false, delay: 0, reason: `status ${error.status} is not retryable` };
+      }
+
+      const retryAfter = this.getRetryAfterDelay(error);
+      if (retryAfter !== undefined) {
+        return { shouldRetry: true, delay: retryAfter, reason: `status ${error.status} with Retry-After` };
+      }
+
+      return { shouldRetry: true, delay: this.getDelay(attempt), reason: `status ${error.status} is retryable` };
+    }
+
+    const matchedError = this.config.retryableErrors.find(code =>
+      error.message.includes(code) || error.name.includes(code)
+    );
+
+    if (!matchedError) {
+      return { shouldRetry: false, delay: 0, reason: `error "${error.message}" is not retryable` };
+    }
+
+    return { shouldRetry: true, delay: this.getDelay(attempt), reason: `${matchedError} is retryable` };
+  }
+
+  getDelay(attempt: number): number {
+    let delay: number;
+
+    switch (this.config.backoff) {
+      case 'fixed':
+        delay = this.config.baseDelay;
+        break;
+      case 'linear':
+        delay = this.config.baseDelay * (attempt + 1);
+        break;
+      case 'exponential':
+      default:
+        delay = this.config.baseDelay * Math.pow(2, attempt);
+        break;
+    }
+
+    delay = Math.min(delay, this.config.maxDelay);
+
+    switch (this.config.jitter) {
+      case 'full':
+        return Math.round(this.random() * delay);
+      case 'equal':
+        return Math.round(delay / 2 + this.random() * (delay / 2));
+      case 'none':
+      default:
+        return delay;
+    }
+  }
+
+  getMaxRetries(): number {
+    return this.config.maxRetries;
+  }
+
+  getConfig(): Required<RetryPolicyConfig> {
+    return { ...this.config };
+  }
+
+  private isRetryableMethod(request: RequestConfig): boolean {
+    if (IDEMPOTENT_METHODS.includes(request.method)) {
+      return true;
+    }
+
+    return request.idempotent ?? this.config.retryNonIdempotent;
+  }
+
+  private getRetryAfterDelay(error: ApiError): number | undefined {
+    if (!this.config.respectRetryAfter || (error.status !== 429 && error.status !== 503)) {
+      return undefined;
+    }
+
+    const headerValue = error.headers?.['retry-after'];
+    const delay = RetryPolicy.parseRetryAfter(headerValue, this.clock.now());
+
+    return delay === undefined ? undefined : Math.min(delay, this.config.maxRetryAfter);
+  }
+
+  // Retry-After is either a number of seconds or an HTTP date
+  static parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const seconds = Number(value.trim());
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,244 @@
+import { JsonSchema, JsonSchemaType, SchemaIssue, SchemaValidationResult } from '@/types';
+
+export interface SchemaValidatorOptions {
+  definitions?: Record<string, JsonSchema>; // targets for $ref
+  additionalProperties?: boolean; // policy for object schemas that leave additionalProperties unset
+}
+
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  'date-time': value => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i.test(value) && !isNaN(Date.parse(value)),
+  date: value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+  uri: value => {
+    try {
+      return /^[a-z][a-z0-9+.-]*:/i.test(value) && !!new URL(value);
+    } catch {
+      return false;
+    }
+  },
+  uuid: value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  'hex-color': value => /^#[0-9a-f]{6}$/i.test(value)
+};
+
+// Validates JSON values against the JsonSchema subset and reports every mismatch with its path
+export class SchemaValidator {
+  private definitions: Record<string, JsonSchema>;
+  private additionalProperties: boolean;
+
+  constructor(options: SchemaValidatorOptions = {}) {
+    this.definitions = options.definitions || {};
+    this.additionalProperties = options.additionalProperties ?? true;
+  }
+
+  validate(value: unknown, schema: JsonSchema): SchemaValidationResult {
+    const issues: SchemaIssue[] = [];
+    this.check(value, schema, '$', issues);
+    return { valid: issues.length === 0, issues };
+  }
+
+  // Renders issues as a diff: the path, then the expected (-) and received (+) sides
+  static formatIssues(issues: SchemaIssue[]): string {
+    return issues
+      .map(issue => `  at ${issue.path} (${issue.keyword})\n    - expected: ${issue.expected}\n    + received: ${issue.received}`)
+      .join('\n');
+  }
+
+  static describe(value: unknown): string {
+    if (value === undefined) {
+      return 'undefined';
+    }
+
+    const json = JSON.stringify(value);
+    const text = json.length > 60 ? `${json.slice(0, 57)}...` : json;
+    return `${text} (${SchemaValidator.typeOf(value)})`;
+  }
+
+  private static typeOf(value: unknown): JsonSchemaType {
+    if (value === null) {
+      return 'null';
+    }
+    if (Array.isArray(value)) {
+      return 'array';
+    }
+    if (typeof value === 'number') {
+      return Number.isInteger(value) ? 'integer' : 'number';
+    }
+    return typeof value as JsonSchemaType;
+  }
+
+  // siblingProperties: names declared by the other allOf parts, which the default policy must not flag as extra
+  private check(value: unknown, schema: JsonSchema, path: string, issues: SchemaIssue[], siblingProperties?: Set<string>): void {
+    const report = (keyword: string, expected: string, received = SchemaValidator.describe(value)) => {
+      issues.push({ path, keyword, expected, received });
+    };
+
+    if (schema.$ref) {
+      this.check(value, this.resolve(schema.$ref), path, issues, siblingProperties);
+      return;
+    }
+
+    if (schema.allOf) {
+      const declared = new Set([...(siblingProperties || []), ...this.propertyNames(schema)]);
+      schema.allOf.forEach(part => this.check(value, part, path, issues, declared));
+    }
+
+    if (schema.anyOf && !schema.anyOf.some(option => this.matches(value, option))) {
+      report('anyOf', `any of ${schema.anyOf.map(option => this.label(option)).join(' | ')}`);
+    }
+
+    if (schema.oneOf) {
+      const matched = schema.oneOf.filter(option => this.matches(value, option)).length;
+      if (matched !== 1) {
+        report('oneOf', `exactly one of ${schema.oneOf.map(option => this.label(option)).join(' | ')} (matched ${matched})`);
+      }
+    }
+
+    if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+      report('const', JSON.stringify(schema.const));
+    }
+
+    if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+      report('enum', `one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+
+    const types = this.allowedTypes(schema);
+    if (types.length > 0) {
+      const actual = SchemaValidator.typeOf(value);
+      const typeMatches = types.includes(actual) || (actual === 'integer' && types.includes('number'));
+
+      if (value === undefined || !typeMatches) {
+        report('type', types.join(' | '));
+        return;
+      }
+    }
+
+    if (typeof value === 'string') {
+      this.checkString(value, schema, report);
+    } else if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        report('minimum', `>= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        report('maximum', `<= ${schema.maximum}`);
+      }
+    } else if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        report('minItems', `at least ${schema.minItems} item(s)`, `${value.length} item(s)`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        report('maxItems', `at most ${schema.maxItems} item(s)`, `${value.length} item(s)`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => this.check(item, schema.items!, `${path}[${index}]`, issues));
+      }
+    } else if (value !== null && typeof value === 'object') {
+      this.checkObject(value as Record<string, unknown>, schema, path, issues, siblingProperties);
+    }
+  }
+
+  private checkString(value: string, schema: JsonSchema, report: (keyword: string, expected: string) => void): void {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      report('minLength', `at least ${schema.minLength} character(s)`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      report('maxLength', `at most ${schema.maxLength} character(s)`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      report('pattern', `string matching /${schema.pattern}/`);
+    }
+    if (schema.format && FORMAT_CHECKS[schema.format] && !FORMAT_CHECKS[schema.format](value)) {
+      report('format', `string in ${schema.format} format`);
+    }
+  }
+
+  private checkObject(
+    value: Record<string, unknown>,
+    schema: JsonSchema,
+    path: string,
+    issues: SchemaIssue[],
+    siblingProperties?: Set<string>
+  ): void {
+    const properties = schema.properties || {};
+
+    for (const name of schema.required || []) {
+      if (!(name in value)) {
+        issues.push({
+          path: this.join(path, name),
+          keyword: 'required',
+          expected: properties[name] ? this.label(properties[name]) : 'property to be present',
+          received: 'undefined (missing)'
+        });
+      }
+    }
+
+    const additional = schema.additionalProperties ?? (schema.properties ? this.additionalProperties : true);
+
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const propertyPath = this.join(path, name);
+
+      if (properties[name]) {
+        this.check(propertyValue, properties[name], propertyPath, issues);
+      } else if (schema.additionalProperties === undefined && siblingProperties?.has(name)) {
+        continue;
+      } else if (additional === false) {
+        issues.push({
+          path: propertyPath,
+          keyword: 'additionalProperties',
+          expected: 'no additional properties',
+          received: SchemaValidator.describe(propertyValue)
+        });
+      } else if (typeof additional === 'object') {
+        this.check(propertyValue, additional, propertyPath, issues);
+      }
+    }
+  }
+
+  // Property names declared by a schema and everything it composes with allOf
+  private propertyNames(schema: JsonSchema): string[] {
+    if (schema.$ref) {
+      return this.propertyNames(this.resolve(schema.$ref));
+    }
+    return [
+      ...Object.keys(schema.properties || {}),
+      ...(schema.allOf || []).flatMap(part => this.propertyNames(part))
+    ];
+  }
+
+  private matches(value: unknown, schema: JsonSchema): boolean {
+    const issues: SchemaIssue[] = [];
+    this.check(value, schema, '$', issues);
+    return issues.length === 0;
+  }
+
+  private allowedTypes(schema: JsonSchema): JsonSchemaType[] {
+    if (!schema.type) {
+      return [];
+    }
+
+    const types = Array.isArray(schema.type) ? [...schema.type] : [schema.type];
+    return schema.nullable ? [...types, 'null'] : types;
+  }
+
+  private label(schema: JsonSchema): string {
+    if (schema.$ref) {
+      return schema.$ref.split('/').pop()!;
+    }
+
+    const type = schema.title || this.allowedTypes(schema).join(' | ') || 'any';
+    return schema.format ? `${type} (${schema.format})` : type;
+  }
+
+  private resolve(ref: string): JsonSchema {
+    const name = ref.split('/').pop()!;
+    const schema = this.definitions[name];
+
+    if (!schema) {
+      throw new Error(`Unresolved schema reference: ${ref}`);
+    }
+    return schema;
+  }
+
+  private join(path: string, name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? `${path}.${name}` : `${path}[${JSON.stringify(name)}]`;
+  }
+}